@@ -10,10 +10,11 @@ export class APIClient {
   comment: CommentController;
   tag: TagController;
 
-  constructor(request: APIRequestContext) {
-    this.user = new UserController(request);
-    this.article = new ArticleController(request);
-    this.comment = new CommentController(request);
-    this.tag = new TagController(request);
+  // headers (e.g. Authorization from getAuthHeaders) are sent with every request of this client
+  constructor(request: APIRequestContext, headers: Record<string, string> = {}) {
+    this.user = new UserController(request, headers);
+    this.article = new ArticleController(request, headers);
+    this.comment = new CommentController(request, headers);
+    this.tag = new TagController(request, headers);
   }
 }
\ No newline at end of file
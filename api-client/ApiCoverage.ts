@@ -0,0 +1,64 @@
+import fs from "node:fs";
+import path from "node:path";
+
+export interface CoverageHit {
+  method: string;
+  url: string;
+  status: number;
+  duration: number;
+  retried?: boolean;     // the attempt was retried, so its duration is not the one the test saw
+}
+
+// Set by helpers/CoverageReporter.ts and helpers/PerformanceReporter.ts, hits are not collected without them
+export const coverageDirEnv = "API_COVERAGE_DIR";
+
+let hitsFile: string | undefined;
+let hitListener: ((hit: CoverageHit) => void) | undefined;
+
+/**
+ * Called by reporters in their constructor (main process, before workers start).
+ * The first reporter picks and clears the directory, the others share it.
+ */
+export function enableHitCollection(defaultDir: string): string {
+  if (!process.env[coverageDirEnv]) {
+    fs.rmSync(defaultDir, { recursive: true, force: true });
+    process.env[coverageDirEnv] = defaultDir;
+  }
+  return process.env[coverageDirEnv]!;
+}
+
+// Hands every hit to `listener` instead of writing it, load/LoadRunner.ts aggregates them in memory while it times requests
+export function setCoverageHitListener(listener: ((hit: CoverageHit) => void) | undefined) {
+  hitListener = listener;
+}
+
+/**
+ * Appends a response to this process' hits file. Workers write separate files,
+ * the reporter merges them and maps every hit to an OpenAPI operation when the run ends.
+ */
+export function recordCoverageHit(hit: CoverageHit) {
+  if (hitListener) {
+    hitListener(hit);
+    return;
+  }
+  const dir = process.env[coverageDirEnv];
+  if (!dir) {
+    return;
+  }
+  if (!hitsFile) {
+    fs.mkdirSync(dir, { recursive: true });
+    hitsFile = path.join(dir, `hits-${process.pid}.jsonl`);
+  }
+  fs.appendFileSync(hitsFile, JSON.stringify(hit) + "\n");
+}
+
+export function readCoverageHits(dir: string): CoverageHit[] {
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+  return fs.readdirSync(dir)
+    .filter((fileName) => fileName.endsWith(".jsonl"))
+    .flatMap((fileName) => fs.readFileSync(path.join(dir, fileName), "utf-8").split("\n"))
+    .filter((line) => line.trim() !== "")
+    .map((line) => JSON.parse(line) as CoverageHit);
+}
@@ -0,0 +1,202 @@
+import { APIResponse, TestInfo, WorkerInfo } from "@playwright/test";
+import fs from "node:fs";
+import path from "node:path";
+import { findApiOperation } from "../app/schemas/SchemaRegistry";
+import { maskBody, maskHeaders } from "./HttpRecorder";
+
+export interface CassetteEntry {
+  method: string;
+  path: string;                       // URL as the controller passed it, relative to baseURL
+  requestBody?: unknown;              // secrets masked
+  url?: string;                       // absolute URL of the response
+  status?: number;
+  headers?: Record<string, string>;
+  body?: unknown;
+  error?: string;                     // the request failed without a response
+}
+
+export interface CassetteFile {
+  test: string[];
+  recordedAt: string;
+  dataSeed?: number;                  // seed of the generated data, replay generates the same payloads again
+  entries: CassetteEntry[];
+}
+
+export class ReplayMissError extends Error {
+  constructor(method: string, url: string, file: string) {
+    super(`No recorded response for ${method} ${url} in ${file}. Record it again with HTTP_REPLAY=record.`);
+    this.name = "ReplayMissError";
+  }
+}
+
+/**
+ * Recorded HTTP traffic of one test, stored as `<HTTP_CASSETTE_DIR>/<project>/<spec file>/<test title>.json`.
+ * The `httpCassette` fixture sets `HttpCassette.current`, BaseContoroller writes every attempt to it in record mode
+ * and takes responses from it instead of the server in replay mode.
+ */
+export class HttpCassette {
+  static current: HttpCassette | undefined;
+
+  readonly entries: CassetteEntry[] = [];
+  dataSeed: number | undefined;
+  private used = new Set<number>();
+
+  constructor(readonly mode: "record" | "replay", readonly file: string) {
+    if (mode === "replay" && fs.existsSync(file)) {
+      const cassette = JSON.parse(fs.readFileSync(file, "utf-8")) as CassetteFile;
+      this.entries = cassette.entries;
+      this.dataSeed = cassette.dataSeed;
+    }
+  }
+
+  static fileFor(testInfo: TestInfo): string {
+    const specFile = path.relative(testInfo.project.testDir, testInfo.file);
+    const title = testInfo.titlePath.slice(1).join(" ").replace(/[^a-zA-Z0-9]+/g, "-").replace(/^-|-$/g, "");
+    return path.join(this.dir, testInfo.project.name, specFile, `${title}.json`);
+  }
+
+  // Calls of worker fixtures (user pool) happen outside of any test and get a cassette per project
+  static workerFileFor(workerInfo: WorkerInfo, name: string): string {
+    return path.join(this.dir, workerInfo.project.name, `${name}.json`);
+  }
+
+  // Makes `cassette` current while `action` runs and restores the previous one
+  static async use<T>(cassette: HttpCassette | undefined, action: () => Promise<T>): Promise<T> {
+    const previous = HttpCassette.current;
+    HttpCassette.current = cassette;
+    try {
+      return await action();
+    } finally {
+      HttpCassette.current = previous;
+    }
+  }
+
+  private static get dir(): string {
+    return process.env.HTTP_CASSETTE_DIR || path.resolve(__dirname, "../recordings");
+  }
+
+  record(entry: CassetteEntry) {
+    if (this.mode !== "record") {
+      return;
+    }
+    this.entries.push({
+      ...entry,
+      requestBody: maskBody(entry.requestBody),
+      headers: entry.headers && maskHeaders(entry.headers),
+      // `{ errors }` maps are keyed by field name ("password": "can't be blank") and hold no secrets
+      body: this.isErrorBody(entry.body) ? entry.body : maskBody(entry.body),
+    });
+  }
+
+  /**
+   * Returns the recorded response for the request. An entry with the same method, path and body wins,
+   * otherwise the next entry of the same operation is used, so payloads with generated values still replay in order.
+   */
+  replay(method: string, url: string, data: unknown): APIResponse {
+    const key = this.key(method, url, data);
+    let index = this.entries.findIndex((entry, i) => !this.used.has(i) && this.key(entry.method, entry.path, entry.requestBody) === key);
+
+    if (index === -1) {
+      const operation = findApiOperation(method, url)?.operationId ?? this.normalizePath(url);
+      index = this.entries.findIndex((entry, i) =>
+        !this.used.has(i) &&
+        entry.method === method &&
+        (findApiOperation(entry.method, entry.path)?.operationId ?? this.normalizePath(entry.path)) === operation
+      );
+    }
+    if (index === -1) {
+      throw new ReplayMissError(method, url, this.file);
+    }
+
+    this.used.add(index);
+    const entry = this.entries[index];
+    if (entry.error !== undefined) {
+      throw new Error(entry.error);
+    }
+    return new ReplayedResponse(entry);
+  }
+
+  save(test: string[]) {
+    if (this.mode !== "record" || this.entries.length === 0) {
+      return;
+    }
+    const cassette: CassetteFile = { test, recordedAt: new Date().toISOString(), dataSeed: this.dataSeed, entries: this.entries };
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+    fs.writeFileSync(this.file, JSON.stringify(cassette, null, 2));
+  }
+
+  // Method, path with sorted query and body with sorted keys; secrets are masked the same way as in record()
+  private key(method: string, url: string, body: unknown): string {
+    return `${method} ${this.normalizePath(url)} ${JSON.stringify(this.sortKeys(maskBody(body)))}`;
+  }
+
+  private isErrorBody(body: unknown): boolean {
+    return typeof body === "object" && body !== null && "errors" in body;
+  }
+
+  private normalizePath(url: string): string {
+    const { pathname, searchParams } = new URL(url, "http://replay");
+    searchParams.sort();
+    const query = searchParams.toString();
+    return query ? `${pathname}?${query}` : pathname;
+  }
+
+  private sortKeys(value: unknown): unknown {
+    if (Array.isArray(value)) {
+      return value.map((item) => this.sortKeys(item));
+    }
+    if (value && typeof value === "object") {
+      return Object.fromEntries(Object.keys(value).sort().map((key) => [key, this.sortKeys((value as Record<string, unknown>)[key])]));
+    }
+    return value;
+  }
+}
+
+// APIResponse built from a cassette entry, controllers parse it like a live one
+class ReplayedResponse implements APIResponse {
+  constructor(private entry: CassetteEntry) {}
+
+  async body(): Promise<Buffer> {
+    return Buffer.from(await this.text());
+  }
+
+  async dispose(): Promise<void> {}
+
+  headers(): { [key: string]: string } {
+    return this.entry.headers ?? {};
+  }
+
+  headersArray(): Array<{ name: string; value: string }> {
+    return Object.entries(this.headers()).map(([name, value]) => ({ name, value }));
+  }
+
+  async json() {
+    return JSON.parse(await this.text());
+  }
+
+  ok(): boolean {
+    return this.status() >= 200 && this.status() <= 299;
+  }
+
+  status(): number {
+    return this.entry.status ?? 0;
+  }
+
+  statusText(): string {
+    return "";
+  }
+
+  async text(): Promise<string> {
+    const { body } = this.entry;
+    if (body === undefined) {
+      return "";
+    }
+    return typeof body === "string" ? body : JSON.stringify(body);
+  }
+
+  url(): string {
+    return this.entry.url ?? this.entry.path;
+  }
+
+  async [Symbol.asyncDispose](): Promise<void> {}
+}
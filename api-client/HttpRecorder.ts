@@ -0,0 +1,126 @@
+export interface HttpExchange {
+  method: string;
+  url: string;
+  requestHeaders: Record<string, string>;
+  requestBody?: unknown;
+  status?: number;
+  responseHeaders?: Record<string, string>;
+  responseBody?: unknown;
+  duration: number;
+  startedAt: string;
+  attempt?: number;
+  error?: string;
+  curl?: string;
+}
+
+const SECRET_HEADERS = ["authorization", "cookie", "set-cookie", "x-api-key"];
+const SECRET_FIELDS = /^(password|token|secret|api[-_]?key|(access|refresh)[-_]?token)$/i;
+const MAX_BODY_LENGTH = 10000;
+
+export function maskHeaders(headers: Record<string, string>): Record<string, string> {
+  const masked: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    if (SECRET_HEADERS.includes(name.toLowerCase())) {
+      const [scheme, secret] = value.split(" ");
+      masked[name] = secret ? `${scheme} ${maskValue(secret)}` : maskValue(value);
+    } else {
+      masked[name] = value;
+    }
+  }
+  return masked;
+}
+
+export function maskBody(body: unknown): unknown {
+  if (Array.isArray(body)) {
+    return body.map((item) => maskBody(item));
+  }
+  if (body && typeof body === "object") {
+    return Object.fromEntries(
+      Object.entries(body).map(([key, value]) => [
+        key,
+        SECRET_FIELDS.test(key) && typeof value === "string" ? maskValue(value) : maskBody(value),
+      ])
+    );
+  }
+  return body;
+}
+
+// Long values (tokens) keep a short prefix to tell them apart, short ones (passwords) are hidden completely
+function maskValue(value: string): string {
+  return value.length > 16 ? `${value.substring(0, 4)}****` : "****";
+}
+
+/**
+ * Collects HTTP exchanges made through the controllers during one test.
+ * The `httpRecorder` fixture sets `HttpRecorder.current` for every test and attaches the result to the report.
+ */
+export class HttpRecorder {
+  static current: HttpRecorder | undefined;
+
+  readonly exchanges: HttpExchange[] = [];
+
+  // `baseURL` resolves the relative URL of calls that failed before a response arrived
+  constructor(private baseURL?: string) {}
+
+  record(exchange: HttpExchange) {
+    const recorded: HttpExchange = {
+      ...exchange,
+      url: this.resolveUrl(exchange.url),
+      requestHeaders: maskHeaders(exchange.requestHeaders),
+      requestBody: maskBody(exchange.requestBody),
+      responseHeaders: exchange.responseHeaders && maskHeaders(exchange.responseHeaders),
+      responseBody: this.truncate(maskBody(exchange.responseBody)),
+    };
+    if (this.isFailing(exchange)) {
+      recorded.curl = this.toCurl(exchange);
+    }
+    this.exchanges.push(recorded);
+  }
+
+  get failingExchanges(): HttpExchange[] {
+    return this.exchanges.filter((exchange) => this.isFailing(exchange));
+  }
+
+  isFailing(exchange: HttpExchange): boolean {
+    return exchange.error !== undefined || exchange.status === undefined || exchange.status >= 400;
+  }
+
+  /**
+   * Builds a cURL command for the exchange. Tokens are replaced with $CONDUIT_TOKEN
+   * and passwords are masked, so export the token before running the command.
+   */
+  toCurl(exchange: HttpExchange): string {
+    const parts = [`curl -X ${exchange.method} ${this.shellQuote(this.resolveUrl(exchange.url))}`];
+
+    for (const [name, value] of Object.entries(exchange.requestHeaders)) {
+      if (name.toLowerCase() === "authorization") {
+        const scheme = value.split(" ")[0];
+        parts.push(`-H "Authorization: ${scheme} $CONDUIT_TOKEN"`);
+      } else {
+        parts.push(`-H ${this.shellQuote(`${name}: ${value}`)}`);
+      }
+    }
+
+    if (exchange.requestBody !== undefined) {
+      parts.push(`-H 'Content-Type: application/json'`);
+      parts.push(`--data-raw ${this.shellQuote(JSON.stringify(maskBody(exchange.requestBody)))}`);
+    }
+
+    return parts.join(" \\\n  ");
+  }
+
+  private resolveUrl(url: string): string {
+    return this.baseURL ? new URL(url, this.baseURL).toString() : url;
+  }
+
+  private truncate(body: unknown): unknown {
+    if (typeof body === "string" && body.length > MAX_BODY_LENGTH) {
+      return body.substring(0, MAX_BODY_LENGTH) + "...";
+    }
+    return body;
+  }
+
+  private shellQuote(value: string): string {
+    return `'${value.replace(/'/g, `'\\''`)}'`;
+  }
+}
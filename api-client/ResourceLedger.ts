@@ -0,0 +1,82 @@
+export type ResourceKind = "article" | "comment" | "follow" | "favorite";
+
+export interface LedgerEntry {
+  kind: ResourceKind;
+  id: string;
+  owner: object;                              // controller that created the resource
+  undo: () => Promise<{ status: number }>;
+}
+
+export interface CleanupFailure {
+  kind: ResourceKind;
+  id: string;
+  reason: string;
+}
+
+export interface CleanupReport {
+  cleaned: number;
+  failures: CleanupFailure[];
+}
+
+/**
+ * Resources created by the controllers during one test.
+ * The `resourceLedger` fixture sets `ResourceLedger.current` for every test and unwinds it after the test,
+ * controllers forget entries that the test removed itself.
+ * Only resources the API can delete are tracked: Conduit has no endpoint to delete a user.
+ */
+export class ResourceLedger {
+  static current: ResourceLedger | undefined;
+
+  private entries: LedgerEntry[] = [];
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  track(kind: ResourceKind, id: string, owner: object, undo: LedgerEntry["undo"]) {
+    this.entries.push({ kind, id, owner, undo });
+  }
+
+  // Runs `action` without a ledger, e.g. for worker fixtures set up while a test is running
+  static async suspend<T>(action: () => Promise<T>): Promise<T> {
+    const previous = ResourceLedger.current;
+    ResourceLedger.current = undefined;
+    try {
+      return await action();
+    } finally {
+      ResourceLedger.current = previous;
+    }
+  }
+
+  // Without owner the entry is forgotten whoever created it (e.g. an article deleted by any user is gone)
+  forget(kind: ResourceKind, id: string, owner?: object) {
+    this.entries = this.entries.filter((entry) =>
+      !(entry.kind === kind && entry.id === id && (owner === undefined || entry.owner === owner))
+    );
+  }
+
+  /**
+   * Undoes tracked resources in reverse creation order.
+   * 404 means the resource is already gone and counts as cleaned.
+   */
+  async unwind(): Promise<CleanupReport> {
+    const entries = this.entries.reverse();
+    this.entries = [];
+    const report: CleanupReport = { cleaned: 0, failures: [] };
+
+    for (const { kind, id, undo } of entries) {
+      try {
+        const { status } = await undo();
+        if (status < 400 || status === 404) {
+          report.cleaned++;
+        } else {
+          report.failures.push({ kind, id, reason: `status ${status}` });
+        }
+      } catch (error) {
+        report.failures.push({ kind, id, reason: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    return report;
+  }
+}
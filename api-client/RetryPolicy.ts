@@ -0,0 +1,61 @@
+export interface RetryPolicy {
+  maxAttempts: number;        // first call included, 1 disables retries
+  methods: string[];          // only idempotent methods are safe to repeat
+  statuses: number[];
+  retryNetworkErrors: boolean;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  maxElapsedMs: number;       // no retry is started once this much time would have passed since the first call
+}
+
+export const defaultRetryPolicy: RetryPolicy = {
+  maxAttempts: 3,
+  methods: ["GET", "PUT", "DELETE"],
+  statuses: [429, 502, 503, 504],
+  retryNetworkErrors: true,
+  baseDelayMs: 200,
+  maxDelayMs: 2000,
+  maxElapsedMs: 10000,
+};
+
+export interface FailedAttempt {
+  method: string;
+  attempt: number;
+  elapsedMs: number;
+  status?: number;          // undefined for connection errors
+  retryAfter?: string;      // Retry-After header of the response
+}
+
+/**
+ * Returns how long to wait before the next attempt, or undefined when the call must not be retried.
+ * Backoff is exponential with jitter, a longer Retry-After from the server wins.
+ */
+export function getRetryDelay(policy: RetryPolicy, failed: FailedAttempt): number | undefined {
+  if (failed.attempt >= policy.maxAttempts || !policy.methods.includes(failed.method)) {
+    return undefined;
+  }
+
+  const retryable = failed.status === undefined ? policy.retryNetworkErrors : policy.statuses.includes(failed.status);
+  if (!retryable) {
+    return undefined;
+  }
+
+  const backoff = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (failed.attempt - 1));
+  const jittered = Math.round(backoff / 2 + Math.random() * backoff / 2);
+  const delay = Math.max(jittered, parseRetryAfter(failed.retryAfter));
+
+  return failed.elapsedMs + delay > policy.maxElapsedMs ? undefined : delay;
+}
+
+// Retry-After is either delay-seconds or an HTTP date
+function parseRetryAfter(value: string | undefined): number {
+  if (!value) {
+    return 0;
+  }
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return seconds * 1000;
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? 0 : Math.max(0, date - Date.now());
+}
@@ -1,89 +1,135 @@
 import { BaseContoroller } from "./BaseController";
-import { Article, ArticlesResponse } from "../../app/interfaces/article.interface";
+import { Article, ArticleQuery, ArticleResponse, ArticlesResponse, Pagination, SingleArticleResponse } from "../../app/interfaces/article.interface";
 import { endpoints } from "../../app/constants";
 import { getEnvUserCredentials } from "../../helpers/env.helper";
+import { ResourceLedger } from "../ResourceLedger";
 
 export class ArticleController extends BaseContoroller {
   private articlesEndpoint = endpoints.articles;
-  private favoriteSuffix = endpoints.articlesFavorite;
+  private articleEndpoint = endpoints.article;
+  private feedEndpoint = endpoints.articlesFeed;
+  private favoriteEndpoint = endpoints.articleFavorite;
 
   async createArticle(articleData: Article) {
-    const response = await this.request.post(this.articlesEndpoint, {
+    const result = await this.post<SingleArticleResponse>(this.articlesEndpoint, {
       data: articleData,
     });
-    const json = await response.json();
-    const slug: string = json.article.slug;
-    const author: string = json.article.author.username;
-    const tag: string = json.article.tagList[0];
-    return { response, slug, author, tag };
+    // Only set when the article was created, so a failed call is not followed by requests to /api/articles/undefined
+    const article = result.response.ok() ? result.body?.article : undefined;
+    const slug = article?.slug;
+    const author = article?.author?.username;
+    const tag = article?.tagList?.[0];
+    if (slug) {
+      ResourceLedger.current?.track("article", slug, this, () => this.deleteArticle(slug));
+    }
+    return { ...result, slug, author, tag };
   }
 
   async getArticle(slug: string) {
-    const response = await this.request.get(this.articlesEndpoint + slug);
-    return response;
+    return this.get<SingleArticleResponse>(this.path(this.articleEndpoint, { slug }));
   }
 
   async editArticle(articleData: Article, slug: string) {
-    const response = await this.request.put(this.articlesEndpoint + slug, {
+    return this.put<SingleArticleResponse>(this.path(this.articleEndpoint, { slug }), {
       data: articleData,
     });
-    return response;
   }
 
   async deleteArticle(slug: string) {
-    const response = await this.request.delete(this.articlesEndpoint + slug);
-    return response;
+    const result = await this.delete(this.path(this.articleEndpoint, { slug }));
+    if (result.response.ok()) {
+      ResourceLedger.current?.forget("article", slug);
+    }
+    return result;
   }
 
   async addToFavorites(slug: string) {
-    const response = await this.request.post(
-      this.articlesEndpoint + slug + this.favoriteSuffix
+    const result = await this.post<SingleArticleResponse>(
+      this.path(this.favoriteEndpoint, { slug })
     );
-    return response;
+    if (result.response.ok()) {
+      ResourceLedger.current?.track("favorite", slug, this, () => this.removeFromFavorites(slug));
+    }
+    return result;
   }
 
   async removeFromFavorites(slug: string) {
-    const response = await this.request.delete(
-      this.articlesEndpoint + slug + this.favoriteSuffix
+    const result = await this.delete<SingleArticleResponse>(
+      this.path(this.favoriteEndpoint, { slug })
     );
-    return response;
+    if (result.response.ok()) {
+      ResourceLedger.current?.forget("favorite", slug, this);
+    }
+    return result;
   }
 
-  async getFavoriteArticles(author: string) {
-    const response = await this.request.get(this.articlesEndpoint, {
-      params: {
-        favorited: author,
-      },
+  async getArticles(query: ArticleQuery = {}) {
+    const { feed, ...filters } = query;
+    const params: Record<string, string | number> = {};
+    for (const [key, value] of Object.entries(filters)) {
+      if (value !== undefined) {
+        params[key] = value;
+      }
+    }
+    return this.get<ArticlesResponse>(feed ? this.feedEndpoint : this.articlesEndpoint, {
+      params,
     });
-    return response;
   }
 
-  async getArticlesByAuthor(author: string) {
-    const response = await this.request.get(this.articlesEndpoint, {
-      params: {
-        author: author,
-      },
-    });
-    return response;
+  /**
+   * Walks every page of the query and yields articles one by one.
+   * Stops once `articlesCount` articles were seen or a page comes back empty.
+   */
+  async *iterateArticles(query: ArticleQuery = {}): AsyncGenerator<ArticleResponse> {
+    const limit = query.limit ?? 20;
+    let offset = query.offset ?? 0;
+
+    while (true) {
+      const page = await this.getArticles({ ...query, limit, offset });
+      if (page.status !== 200) {
+        throw new Error(`Failed to load articles page (offset ${offset}): status ${page.status}`);
+      }
+
+      const articles = page.body.articles ?? [];
+      yield* articles;
+
+      offset += articles.length;
+      if (articles.length === 0 || offset >= (page.body.articlesCount ?? 0)) {
+        return;
+      }
+    }
   }
 
-  async getArticlesByTag(tag: string) {
-    const response = await this.request.get(this.articlesEndpoint, {
-      params: {
-        tag: tag,
-      },
-    });
-    return response;
+  async getAllArticles(query: ArticleQuery = {}) {
+    const articles: ArticleResponse[] = [];
+    for await (const article of this.iterateArticles(query)) {
+      articles.push(article);
+    }
+    return articles;
+  }
+
+  async getFeed(pagination: Pagination = {}) {
+    return this.getArticles({ ...pagination, feed: true });
+  }
+
+  async getFavoriteArticles(author: string, pagination: Pagination = {}) {
+    return this.getArticles({ ...pagination, favorited: author });
+  }
+
+  async getArticlesByAuthor(author: string, pagination: Pagination = {}) {
+    return this.getArticles({ ...pagination, author: author });
+  }
+
+  async getArticlesByTag(tag: string, pagination: Pagination = {}) {
+    return this.getArticles({ ...pagination, tag: tag });
   }
 
-  async getArticlesList() {
-    const response = await this.request.get(this.articlesEndpoint);
-    return response;
+  async getArticlesList(pagination: Pagination = {}) {
+    return this.getArticles(pagination);
   }
 
   async getOtherAuthorByIndex(index: number = 0) {
-    const response = await this.request.get(this.articlesEndpoint);
-    const json: ArticlesResponse = await response.json();
+    const { body: json } = await this.getArticlesList();
 
     if (!json.articles) {
       throw new Error("No articles found");
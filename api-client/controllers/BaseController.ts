@@ -1,8 +1,230 @@
-import { APIRequestContext } from "@playwright/test";
+import { APIRequestContext, APIResponse, expect, test, TestInfo } from "@playwright/test";
+import { ApiResult } from "../../app/interfaces/api.interface";
+import { defaultLatencyBudget, latencyBudgets } from "../../app/budgets";
+import { findApiOperation, findSchemaRule } from "../../app/schemas/SchemaRegistry";
+import { getLatencyBudgetMode, getRetryPolicy, getSchemaValidationMode } from "../../helpers/env.helper";
+import { recordCoverageHit } from "../ApiCoverage";
+import { HttpCassette, ReplayMissError } from "../HttpCassette";
+import { HttpRecorder } from "../HttpRecorder";
+import { getRetryDelay, RetryPolicy } from "../RetryPolicy";
+
+export type HttpMethod = "GET" | "POST" | "PUT" | "DELETE";
+export type RequestOptions = Omit<NonNullable<Parameters<APIRequestContext["fetch"]>[1]>, "method">;
+
+export class SchemaValidationError extends Error {
+  constructor(method: HttpMethod, url: string, status: number, details: string) {
+    super(`Response of ${method} ${url} (${status}) does not match schema: ${details}`);
+    this.name = "SchemaValidationError";
+  }
+}
 
 export abstract class BaseContoroller {
   request: APIRequestContext;
-  constructor(request: APIRequestContext) {
+  headers: Record<string, string>;
+  retryPolicy: RetryPolicy;
+  constructor(request: APIRequestContext, headers: Record<string, string> = {}) {
     this.request = request;
+    this.headers = headers;
+    this.retryPolicy = getRetryPolicy();
+  }
+
+  // Fills {param} placeholders of an `endpoints` template
+  protected path(template: string, params: Record<string, string> = {}): string {
+    return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+      if (params[name] === undefined) {
+        throw new Error(`Missing "${name}" for endpoint ${template}`);
+      }
+      return encodeURIComponent(params[name]);
+    });
+  }
+
+  protected get<T>(url: string, options?: RequestOptions) {
+    return this.send<T>("GET", url, options);
+  }
+
+  protected post<T>(url: string, options?: RequestOptions) {
+    return this.send<T>("POST", url, options);
+  }
+
+  protected put<T>(url: string, options?: RequestOptions) {
+    return this.send<T>("PUT", url, options);
+  }
+
+  protected delete<T = undefined>(url: string, options?: RequestOptions) {
+    return this.send<T>("DELETE", url, options);
+  }
+
+  // Every controller call goes through here, so the body is parsed, timed, recorded, replayed and retried once
+  protected async send<T>(method: HttpMethod, url: string, options: RequestOptions = {}): Promise<ApiResult<T>> {
+    const headers = { ...this.headers, ...options.headers };
+    const firstStartedAt = Date.now();
+
+    for (let attempt = 1; ; attempt++) {
+      const startedAt = Date.now();
+      let response: APIResponse;
+      try {
+        response = await this.fetch(method, url, options, headers);
+      } catch (error) {
+        // A call missing from the cassette stays missing, retrying it would only delay the failure
+        if (error instanceof ReplayMissError) {
+          throw error;
+        }
+        const reason = error instanceof Error ? error.message : String(error);
+        HttpCassette.current?.record({ method, path: url, requestBody: options.data, error: reason });
+        HttpRecorder.current?.record({
+          method,
+          url,
+          requestHeaders: headers,
+          requestBody: options.data,
+          duration: Date.now() - startedAt,
+          startedAt: new Date(startedAt).toISOString(),
+          attempt,
+          error: reason,
+        });
+        const delay = getRetryDelay(this.retryPolicy, { method, attempt, elapsedMs: Date.now() - firstStartedAt });
+        if (delay === undefined) {
+          throw error;
+        }
+        await this.waitBeforeRetry(method, url, attempt, reason, delay);
+        continue;
+      }
+      const duration = Date.now() - startedAt;
+
+      const result: ApiResult<T> = {
+        method,
+        url: response.url(),
+        status: response.status(),
+        headers: response.headers(),
+        body: await this.parseBody<T>(response),
+        response,
+        duration,
+        attempts: attempt,
+      };
+      HttpRecorder.current?.record({
+        method,
+        url: result.url,
+        requestHeaders: headers,
+        requestBody: options.data,
+        status: result.status,
+        responseHeaders: result.headers,
+        responseBody: result.body,
+        duration,
+        startedAt: new Date(startedAt).toISOString(),
+        attempt,
+      });
+      HttpCassette.current?.record({
+        method,
+        path: url,
+        requestBody: options.data,
+        url: result.url,
+        status: result.status,
+        headers: result.headers,
+        body: result.body,
+      });
+      const delay = getRetryDelay(this.retryPolicy, {
+        method,
+        attempt,
+        elapsedMs: Date.now() - firstStartedAt,
+        status: result.status,
+        retryAfter: result.headers["retry-after"],
+      });
+      recordCoverageHit({ method, url, status: result.status, duration, ...(delay !== undefined && { retried: true }) });
+      if (delay !== undefined) {
+        await this.waitBeforeRetry(method, url, attempt, `status ${result.status}`, delay);
+        continue;
+      }
+
+      this.checkLatencyBudget(method, url, duration);
+      this.validateSchema(method, url, result);
+      return result;
+    }
+  }
+
+  // In replay mode (HTTP_REPLAY=replay) the response comes from the cassette of the test instead of the server
+  private async fetch(method: HttpMethod, url: string, options: RequestOptions, headers: Record<string, string>): Promise<APIResponse> {
+    const cassette = HttpCassette.current;
+    if (cassette?.mode === "replay") {
+      return cassette.replay(method, url, options.data);
+    }
+    return this.request.fetch(url, { ...options, headers, method });
+  }
+
+  // Retries are printed and added to the test annotations, so infrastructure noise is visible in the report
+  private async waitBeforeRetry(method: HttpMethod, url: string, attempt: number, reason: string, delay: number) {
+    const message = `${method} ${url} attempt ${attempt} failed (${reason}), retrying in ${delay} ms`;
+    console.warn(`\x1b[33m[RETRY]\x1b[0m ${message}`);
+    this.currentTestInfo()?.annotations.push({ type: "http-retry", description: message });
+    await new Promise((resolve) => setTimeout(resolve, delay));
+  }
+
+  /**
+   * Compares the call duration with the budget of its operation from app/budgets.ts according to LATENCY_BUDGET.
+   * In fail mode the breach is a soft assertion: the test fails, but the call still returns and cleanup is tracked.
+   */
+  private checkLatencyBudget(method: HttpMethod, url: string, duration: number) {
+    const mode = getLatencyBudgetMode();
+    const operation = findApiOperation(method, url);
+    if (mode === "off" || !operation) {
+      return;
+    }
+
+    const budget = latencyBudgets[operation.operationId] ?? defaultLatencyBudget;
+    if (duration <= budget) {
+      return;
+    }
+
+    const message = `${method} ${url} (${operation.operationId}) took ${duration} ms, budget is ${budget} ms`;
+    const testInfo = this.currentTestInfo();
+    testInfo?.annotations.push({ type: "latency-budget", description: message });
+    if (mode === "fail" && testInfo) {
+      expect.soft(duration, message).toBeLessThanOrEqual(budget);
+    } else {
+      console.warn(`\x1b[33m[LATENCY]\x1b[0m ${message}`);
+    }
+  }
+
+  // undefined outside of a test (global setup, worker fixtures)
+  private currentTestInfo(): TestInfo | undefined {
+    try {
+      return test.info();
+    } catch {
+      return undefined;
+    }
+  }
+
+  // Looks up the response schema in SchemaRegistry and reports mismatches according to SCHEMA_VALIDATION
+  private validateSchema(method: HttpMethod, url: string, result: ApiResult<unknown>) {
+    const mode = getSchemaValidationMode();
+    if (mode === "off") {
+      return;
+    }
+
+    const rule = findSchemaRule(method, url, result.status);
+    if (!rule) {
+      return;
+    }
+
+    const { error } = rule.schema.validate(result.body);
+    if (!error) {
+      return;
+    }
+
+    const validationError = new SchemaValidationError(method, url, result.status, error.message);
+    if (mode === "fail") {
+      throw validationError;
+    }
+    console.warn(`\x1b[33m[SCHEMA]\x1b[0m ${validationError.message}`);
+  }
+
+  private async parseBody<T>(response: APIResponse): Promise<T> {
+    const text = await response.text();
+    if (!text) {
+      return undefined as T;
+    }
+    try {
+      return JSON.parse(text) as T;
+    } catch {
+      return text as T;
+    }
   }
 }
@@ -1,34 +1,40 @@
 import { BaseContoroller } from "./BaseController";
-import { Comment } from "../../app/interfaces/article.interface";
+import { Comment, CommentsResponse, SingleCommentResponse } from "../../app/interfaces/article.interface";
 import { endpoints } from "../../app/constants";
+import { ResourceLedger } from "../ResourceLedger";
 
 export class CommentController extends BaseContoroller {
-  private articlesEndpoint = endpoints.articles;
-  private commentsSuffix = endpoints.articlesComments;
+  private commentsEndpoint = endpoints.articleComments;
+  private commentEndpoint = endpoints.articleComment;
 
   async addArticleComment(slug: string, body: Comment) {
-    const response = await this.request.post(
-      this.articlesEndpoint + slug + this.commentsSuffix,
+    const result = await this.post<SingleCommentResponse>(
+      this.path(this.commentsEndpoint, { slug }),
       {
         data: body,
       }
     );
-    const json = await response.json();
-    const commentId = json.comment.id as string;
-    return { response, commentId };
+    // Only set when the comment was created
+    const commentId = result.response.ok() ? result.body?.comment?.id : undefined;
+    if (commentId !== undefined) {
+      ResourceLedger.current?.track("comment", `${slug}/${commentId}`, this, () => this.deleteArticleComment(slug, commentId));
+    }
+    return { ...result, commentId };
   }
 
   async getArticleComments(slug: string) {
-    const response = await this.request.get(
-      this.articlesEndpoint + slug + this.commentsSuffix
+    return this.get<CommentsResponse>(
+      this.path(this.commentsEndpoint, { slug })
     );
-    return response;
   }
 
   async deleteArticleComment(slug: string, commentId: string) {
-    const response = await this.request.delete(
-      this.articlesEndpoint + slug + this.commentsSuffix + commentId
+    const result = await this.delete(
+      this.path(this.commentEndpoint, { slug, id: commentId })
     );
-    return response;
+    if (result.response.ok()) {
+      ResourceLedger.current?.forget("comment", `${slug}/${commentId}`);
+    }
+    return result;
   }
 }
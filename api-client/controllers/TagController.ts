@@ -1,12 +1,11 @@
 import { endpoints } from "../../app/constants";
+import { TagsResponse } from "../../app/interfaces/api.interface";
 import { BaseContoroller } from "./BaseController";
 
 export class TagController extends BaseContoroller {
   private tagsEndpoint = endpoints.tags;
 
   async getExistingTags() {
-    const response = await this.request.get(this.tagsEndpoint);
-    const json = await response.json();
-    return json.tags;
+    return this.get<TagsResponse>(this.tagsEndpoint);
   }
 }
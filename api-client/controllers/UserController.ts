@@ -1,55 +1,63 @@
 import { BaseContoroller } from "./BaseController";
-import { User, UserCredentials } from "../../app/interfaces/user.interface";
+import { Profile, User, UserCredentials, UserResponse } from "../../app/interfaces/user.interface";
 import { endpoints } from "../../app/constants";
+import { ResourceLedger } from "../ResourceLedger";
 
 export class UserController extends BaseContoroller {
   private userEndpoint = endpoints.user;
   private usersEndpoint = endpoints.users;
   private loginEndpoint = endpoints.userLogin;
-  private profileEndpoint = endpoints.profiles;
-  private followSuffix = endpoints.profilesFollow;
+  private profileEndpoint = endpoints.profile;
+  private followEndpoint = endpoints.profileFollow;
 
   async createUser(userData: User | UserCredentials) {
-    const response = await this.request.post(this.usersEndpoint, {
+    // Conduit has no endpoint to delete a user, so registered users are not tracked
+    return this.post<UserResponse>(this.usersEndpoint, {
       data: userData,
     });
-    return response;
   }
 
   async loginUser(email: string | undefined, password: string | undefined) {
-    const response = await this.request.post(this.loginEndpoint, {
+    return this.post<UserResponse>(this.loginEndpoint, {
       data: { 
         user: { 
           email: email, 
           password: password 
         } },
     });
-    return response;
+  }
+
+  async getCurrentUser() {
+    return this.get<UserResponse>(this.userEndpoint);
   }
 
   async editUser(userData: User | UserCredentials) {
-    const response = await this.request.put(this.userEndpoint, {
+    return this.put<UserResponse>(this.userEndpoint, {
       data: userData,
     });
-    return response;
   }
 
   async getUserProfile(userName: string) {
-    const response = await this.request.get(this.profileEndpoint + userName);
-    return response;
+    return this.get<Profile>(this.path(this.profileEndpoint, { username: userName }));
   }
 
   async followUser(userName: string) {
-    const response = await this.request.post(
-      this.profileEndpoint + userName + this.followSuffix
+    const result = await this.post<Profile>(
+      this.path(this.followEndpoint, { username: userName })
     );
-    return response;
+    if (result.response.ok()) {
+      ResourceLedger.current?.track("follow", userName, this, () => this.unFollowUser(userName));
+    }
+    return result;
   }
 
   async unFollowUser(userName: string) {
-    const response = await this.request.delete(
-      this.profileEndpoint + userName + this.followSuffix
+    const result = await this.delete<Profile>(
+      this.path(this.followEndpoint, { username: userName })
     );
-    return response;
+    if (result.response.ok()) {
+      ResourceLedger.current?.forget("follow", userName, this);
+    }
+    return result;
   }
 }
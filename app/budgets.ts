@@ -0,0 +1,17 @@
+// Latency budgets in ms per operationId from openapi/conduit.openapi.json.
+// Operations that are not listed use defaultLatencyBudget.
+export const defaultLatencyBudget = 1500;
+
+export const latencyBudgets: Record<string, number> = {
+  Login: 800,
+  CreateUser: 1000,
+  GetCurrentUser: 500,
+  UpdateCurrentUser: 800,
+  GetProfileByUsername: 500,
+  GetArticles: 1000,
+  GetArticlesFeed: 1000,
+  GetArticle: 500,
+  CreateArticle: 1000,
+  GetArticleComments: 800,
+  GetTags: 500,
+};
@@ -1,12 +1,2 @@
-
-export const endpoints = {
-    articles: "/api/articles/",
-    articlesFavorite: "/favorite",
-    articlesComments: "/comments/",
-    profiles: "/api/profiles/",
-    profilesFollow: "/follow",
-    tags: "/api/tags/",
-    user: "/api/user",
-    users: "/api/users/",
-    userLogin: "/api/users/login",
-};
\ No newline at end of file
+// Endpoint templates are generated from openapi/conduit.openapi.json, fill {params} with BaseContoroller.path()
+export { endpoints } from "./generated/conduit.endpoints";
@@ -0,0 +1,61 @@
+export type AuthScheme = "Token" | "Bearer";
+
+// Endpoints of the RealWorld spec (feed, limit/offset, GET /api/user) are required of every backend, only the data differs
+export interface EnvironmentCapabilities {
+  seededData: boolean;    // articles and tags by other authors already exist
+}
+
+export interface EnvironmentProfile {
+  baseURL: string;
+  // Credentials and base URL can be overridden with <envPrefix>USER_EMAIL, <envPrefix>BASE_URL etc.
+  // Unset values fall back to the unprefixed variables, or to defaultCredentials when the profile has them
+  envPrefix: string;
+  defaultCredentials?: {
+    USER_EMAIL: string;
+    USER_NAME: string;
+    USER_PASSWORD: string;
+  };
+  authScheme: AuthScheme;
+  // Start the in-memory server from local-server/ through Playwright's webServer
+  localServer: boolean;
+  capabilities: EnvironmentCapabilities;
+}
+
+export const defaultEnvironment = "demo";
+
+export const environments: Record<string, EnvironmentProfile> = {
+  local: {
+    baseURL: "http://127.0.0.1:3100",
+    envPrefix: "LOCAL_",
+    defaultCredentials: {
+      USER_EMAIL: "qa.user@example.com",
+      USER_NAME: "qauser",
+      USER_PASSWORD: "Secret123",
+    },
+    authScheme: "Token",
+    localServer: true,
+    // false with LOCAL_SERVER_SEED=false, see getEnvironment
+    capabilities: {
+      seededData: true,
+    },
+  },
+  staging: {
+    baseURL: "",
+    envPrefix: "STAGING_",
+    authScheme: "Token",
+    localServer: false,
+    // A staging deployment may start empty, tests that need foreign data are skipped
+    capabilities: {
+      seededData: false,
+    },
+  },
+  demo: {
+    baseURL: "https://conduit-api.learnwebdriverio.com",
+    envPrefix: "",
+    authScheme: "Token",
+    localServer: false,
+    capabilities: {
+      seededData: true,
+    },
+  },
+};
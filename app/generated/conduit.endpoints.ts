@@ -0,0 +1,48 @@
+// Generated by openapi/generate.ts from openapi/conduit.openapi.json. Do not edit, run `npm run api:generate`.
+import Joi from "joi";
+import { ConduitSchemas } from "./conduit.schemas";
+
+export const endpoints = {
+  userLogin: "/api/users/login",
+  users: "/api/users",
+  user: "/api/user",
+  profile: "/api/profiles/{username}",
+  profileFollow: "/api/profiles/{username}/follow",
+  articlesFeed: "/api/articles/feed",
+  articles: "/api/articles",
+  article: "/api/articles/{slug}",
+  articleComments: "/api/articles/{slug}/comments",
+  articleComment: "/api/articles/{slug}/comments/{id}",
+  articleFavorite: "/api/articles/{slug}/favorite",
+  tags: "/api/tags",
+};
+
+export interface ApiOperation {
+  operationId: string;
+  method: string;
+  path: string;                                   // template, e.g. "/api/articles/{slug}"
+  responses: Record<number, Joi.Schema | null>;   // documented statuses, null when the response has no body
+}
+
+// Same order as the paths in the document, so specific paths come before templated ones
+export const apiOperations: ApiOperation[] = [
+  { operationId: "Login", method: "POST", path: endpoints.userLogin, responses: { 200: ConduitSchemas.UserResponse, 422: ConduitSchemas.GenericErrorModel } },
+  { operationId: "CreateUser", method: "POST", path: endpoints.users, responses: { 200: ConduitSchemas.UserResponse, 422: ConduitSchemas.GenericErrorModel } },
+  { operationId: "GetCurrentUser", method: "GET", path: endpoints.user, responses: { 200: ConduitSchemas.UserResponse, 401: ConduitSchemas.GenericErrorModel } },
+  { operationId: "UpdateCurrentUser", method: "PUT", path: endpoints.user, responses: { 200: ConduitSchemas.UserResponse, 401: ConduitSchemas.GenericErrorModel, 422: ConduitSchemas.GenericErrorModel } },
+  { operationId: "GetProfileByUsername", method: "GET", path: endpoints.profile, responses: { 200: ConduitSchemas.ProfileResponse, 404: ConduitSchemas.GenericErrorModel } },
+  { operationId: "FollowUserByUsername", method: "POST", path: endpoints.profileFollow, responses: { 200: ConduitSchemas.ProfileResponse, 401: ConduitSchemas.GenericErrorModel, 404: ConduitSchemas.GenericErrorModel } },
+  { operationId: "UnfollowUserByUsername", method: "DELETE", path: endpoints.profileFollow, responses: { 200: ConduitSchemas.ProfileResponse, 401: ConduitSchemas.GenericErrorModel, 404: ConduitSchemas.GenericErrorModel } },
+  { operationId: "GetArticlesFeed", method: "GET", path: endpoints.articlesFeed, responses: { 200: ConduitSchemas.MultipleArticlesResponse, 401: ConduitSchemas.GenericErrorModel } },
+  { operationId: "GetArticles", method: "GET", path: endpoints.articles, responses: { 200: ConduitSchemas.MultipleArticlesResponse } },
+  { operationId: "CreateArticle", method: "POST", path: endpoints.articles, responses: { 200: ConduitSchemas.SingleArticleResponse, 401: ConduitSchemas.GenericErrorModel, 422: ConduitSchemas.GenericErrorModel } },
+  { operationId: "GetArticle", method: "GET", path: endpoints.article, responses: { 200: ConduitSchemas.SingleArticleResponse, 404: ConduitSchemas.GenericErrorModel } },
+  { operationId: "UpdateArticle", method: "PUT", path: endpoints.article, responses: { 200: ConduitSchemas.SingleArticleResponse, 401: ConduitSchemas.GenericErrorModel, 403: ConduitSchemas.GenericErrorModel, 404: ConduitSchemas.GenericErrorModel, 422: ConduitSchemas.GenericErrorModel } },
+  { operationId: "DeleteArticle", method: "DELETE", path: endpoints.article, responses: { 204: null, 401: ConduitSchemas.GenericErrorModel, 403: ConduitSchemas.GenericErrorModel, 404: ConduitSchemas.GenericErrorModel } },
+  { operationId: "GetArticleComments", method: "GET", path: endpoints.articleComments, responses: { 200: ConduitSchemas.MultipleCommentsResponse, 404: ConduitSchemas.GenericErrorModel } },
+  { operationId: "CreateArticleComment", method: "POST", path: endpoints.articleComments, responses: { 200: ConduitSchemas.SingleCommentResponse, 401: ConduitSchemas.GenericErrorModel, 404: ConduitSchemas.GenericErrorModel, 422: ConduitSchemas.GenericErrorModel } },
+  { operationId: "DeleteArticleComment", method: "DELETE", path: endpoints.articleComment, responses: { 204: null, 401: ConduitSchemas.GenericErrorModel, 403: ConduitSchemas.GenericErrorModel, 404: ConduitSchemas.GenericErrorModel } },
+  { operationId: "CreateArticleFavorite", method: "POST", path: endpoints.articleFavorite, responses: { 200: ConduitSchemas.SingleArticleResponse, 401: ConduitSchemas.GenericErrorModel, 404: ConduitSchemas.GenericErrorModel } },
+  { operationId: "DeleteArticleFavorite", method: "DELETE", path: endpoints.articleFavorite, responses: { 200: ConduitSchemas.SingleArticleResponse, 401: ConduitSchemas.GenericErrorModel, 404: ConduitSchemas.GenericErrorModel } },
+  { operationId: "GetTags", method: "GET", path: endpoints.tags, responses: { 200: ConduitSchemas.TagsResponse } },
+];
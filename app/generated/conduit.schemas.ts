@@ -0,0 +1,133 @@
+// Generated by openapi/generate.ts from openapi/conduit.openapi.json. Do not edit, run `npm run api:generate`.
+import Joi from "joi";
+
+export class ConduitSchemas {
+  static readonly LoginUser = Joi.object({
+    email: Joi.string().allow("").required(),
+    password: Joi.string().allow("").required(),
+  });
+
+  static readonly LoginUserRequest = Joi.object({
+    user: ConduitSchemas.LoginUser.required(),
+  });
+
+  static readonly NewUser = Joi.object({
+    username: Joi.string().allow("").required(),
+    email: Joi.string().allow("").required(),
+    password: Joi.string().allow("").required(),
+  });
+
+  static readonly NewUserRequest = Joi.object({
+    user: ConduitSchemas.NewUser.required(),
+  });
+
+  static readonly UpdateUser = Joi.object({
+    email: Joi.string().allow(""),
+    password: Joi.string().allow(""),
+    username: Joi.string().allow(""),
+    bio: Joi.string().allow(""),
+    image: Joi.string().allow(""),
+  });
+
+  static readonly UpdateUserRequest = Joi.object({
+    user: ConduitSchemas.UpdateUser.required(),
+  });
+
+  static readonly User = Joi.object({
+    email: Joi.string().email({ tlds: { allow: false } }).required(),
+    token: Joi.string().required(),
+    username: Joi.string().required(),
+    bio: Joi.string().allow(""),
+    image: Joi.string().uri().required(),
+  });
+
+  static readonly UserResponse = Joi.object({
+    user: ConduitSchemas.User.required(),
+  });
+
+  static readonly Profile = Joi.object({
+    username: Joi.string().required(),
+    bio: Joi.string().allow(""),
+    image: Joi.string().uri().required(),
+    following: Joi.boolean().required(),
+  });
+
+  static readonly ProfileResponse = Joi.object({
+    profile: ConduitSchemas.Profile.required(),
+  });
+
+  static readonly Article = Joi.object({
+    slug: Joi.string().required(),
+    title: Joi.string().allow("").required(),
+    description: Joi.string().allow("").required(),
+    body: Joi.string().allow("").required(),
+    tagList: Joi.array().items(Joi.string()).required(),
+    createdAt: Joi.string().isoDate().required(),
+    updatedAt: Joi.string().isoDate().required(),
+    favorited: Joi.boolean().required(),
+    favoritesCount: Joi.number().integer().min(0).required(),
+    author: ConduitSchemas.Profile.required(),
+  });
+
+  static readonly SingleArticleResponse = Joi.object({
+    article: ConduitSchemas.Article.required(),
+  });
+
+  static readonly MultipleArticlesResponse = Joi.object({
+    articles: Joi.array().items(ConduitSchemas.Article).required(),
+    articlesCount: Joi.number().integer().min(0).required(),
+  });
+
+  static readonly NewArticle = Joi.object({
+    title: Joi.string().allow("").required(),
+    description: Joi.string().allow("").required(),
+    body: Joi.string().allow("").required(),
+    tagList: Joi.array().items(Joi.string().allow("")),
+  });
+
+  static readonly NewArticleRequest = Joi.object({
+    article: ConduitSchemas.NewArticle.required(),
+  });
+
+  static readonly UpdateArticle = Joi.object({
+    title: Joi.string().allow(""),
+    description: Joi.string().allow(""),
+    body: Joi.string().allow(""),
+    tagList: Joi.array().items(Joi.string().allow("")),
+  });
+
+  static readonly UpdateArticleRequest = Joi.object({
+    article: ConduitSchemas.UpdateArticle.required(),
+  });
+
+  static readonly Comment = Joi.object({
+    id: Joi.string().required(),
+    body: Joi.string().required(),
+    createdAt: Joi.string().isoDate().required(),
+    author: ConduitSchemas.Profile.required(),
+  });
+
+  static readonly SingleCommentResponse = Joi.object({
+    comment: ConduitSchemas.Comment.required(),
+  });
+
+  static readonly MultipleCommentsResponse = Joi.object({
+    comments: Joi.array().items(ConduitSchemas.Comment).required(),
+  });
+
+  static readonly NewComment = Joi.object({
+    body: Joi.string().allow("").required(),
+  });
+
+  static readonly NewCommentRequest = Joi.object({
+    comment: ConduitSchemas.NewComment.required(),
+  });
+
+  static readonly TagsResponse = Joi.object({
+    tags: Joi.array().items(Joi.string()).required(),
+  });
+
+  static readonly GenericErrorModel = Joi.object({
+    errors: Joi.object().pattern(Joi.string(), Joi.alternatives(Joi.string().allow(""), Joi.array().items(Joi.string().allow("")))).min(1).required(),
+  });
+}
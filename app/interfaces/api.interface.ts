@@ -0,0 +1,17 @@
+import { APIResponse } from "@playwright/test";
+import { GenericErrorModel } from "../generated/conduit.interfaces";
+
+export type { TagsResponse } from "../generated/conduit.interfaces";
+
+export interface ApiResult<T> {
+  method: string;
+  url: string;
+  status: number;
+  headers: Record<string, string>;
+  body: T;
+  response: APIResponse;
+  duration: number;   // of the last attempt, ms
+  attempts: number;   // 1 unless the call was retried
+}
+
+export type ErrorResponse = GenericErrorModel;
@@ -1,43 +1,31 @@
-import { Author } from "./user.interface";
+import {
+  Article as GeneratedArticle,
+  Comment as GeneratedComment,
+  MultipleArticlesResponse,
+  MultipleCommentsResponse,
+  NewArticleRequest,
+  NewCommentRequest,
+  UpdateArticleRequest,
+} from "../generated/conduit.interfaces";
 
-export interface Article {
-  article?: {
-    author?: {};
-    title?: string;
-    description?: string;
-    body?: string;
-    tagList?: string[];
-    favorited?: boolean;
-    favoritesCount?: number;
-  };
-}
+// Request and response bodies are generated from openapi/conduit.openapi.json, the aliases keep existing names
+export type { SingleArticleResponse, SingleCommentResponse } from "../generated/conduit.interfaces";
 
-export interface ArticleResponse {
-  slug?: string;
-  title?: string;
-  description?: string;
-  body?: string;
-  createdAt?: string;
-  updatedAt?: string;
-  tagList?: string[];
-  favorited?: boolean;
-  favoritesCount?: number;
-  author?: Author;
-}
+export type Article = NewArticleRequest | UpdateArticleRequest;
+export type ArticleResponse = GeneratedArticle;
+export type ArticlesResponse = MultipleArticlesResponse;
 
-export interface ArticlesResponse {
-  articles?: ArticleResponse[];
-  articlesCount?: number;
-}
+export type Comment = NewCommentRequest;
+export type CommentResponse = GeneratedComment;
+export type CommentsResponse = MultipleCommentsResponse;
 
-export interface Comment {
-  comment: {
-    body: string;
-  };
+export interface ArticleQuery {
+  author?: string;
+  tag?: string;
+  favorited?: string;
+  limit?: number;
+  offset?: number;
+  feed?: boolean;
 }
 
-export interface CommentResponse {
-  id?: string;
-  createdAt?: string;
-  author?: Author;
-}
+export type Pagination = Pick<ArticleQuery, "limit" | "offset">;
@@ -1,26 +1,14 @@
-export interface User {
-  user?: {
-    email?: string;
-    password?: string;
-    username?: string;
-    image?: string;
-    bio?: string;
-  };
-}
+import { NewUser, Profile as GeneratedProfile, ProfileResponse, UpdateUser, User as GeneratedUser } from "../generated/conduit.interfaces";
 
-export interface UserCredentials {
-  email: string;
-  password: string;
-  username: string;
-}
+// Request and response bodies are generated from openapi/conduit.openapi.json, the aliases keep existing names
+export type { UserResponse } from "../generated/conduit.interfaces";
 
-export interface Author {
-  username?: string;
-  image?: string;
-  bio?: string;
-  following?: boolean;
+// Every field is optional so negative specs can send incomplete users
+export interface User {
+  user?: UpdateUser;
 }
 
-export interface Profile {
-  profile?: Author;
-}
\ No newline at end of file
+export type UserCredentials = NewUser;
+export type AuthUser = GeneratedUser;
+export type Author = GeneratedProfile;
+export type Profile = ProfileResponse;
@@ -1,42 +1,13 @@
-import Joi from "joi";
+import { ConduitSchemas } from "../generated/conduit.schemas";
 
+// Schemas are generated from openapi/conduit.openapi.json, this class keeps the names used by the specs
 export class ArticleSchemas {
-  static readonly Author = Joi.object({
-    username: Joi.string().required(),
-    bio: Joi.string().optional(),
-    image: Joi.string().uri().required(),
-    following: Joi.boolean().required(),
-  });
-
-  static readonly Article = Joi.object({
-    slug: Joi.string().required(),
-    title: Joi.string().required().allow(""),
-    description: Joi.string().required().allow(""),
-    body: Joi.string().required().allow(""),
-    createdAt: Joi.date().required(),
-    updatedAt: Joi.date().required(),
-    tagList: Joi.array().items(Joi.string()).required(),
-    favorited: Joi.boolean().required(),
-    favoritesCount: Joi.number().required(),
-    author: ArticleSchemas.Author,
-  });
-
-  static readonly ArticleResponse = Joi.object({
-    article: ArticleSchemas.Article.required(),
-  });
-
-  static readonly Comment = Joi.object({
-    id: Joi.string().required(),
-    body: Joi.string().required(),
-    createdAt: Joi.string().required(),
-    author: ArticleSchemas.Author.required(),
-  });
-
-  static readonly CommentResponse = Joi.object({
-    comment: ArticleSchemas.Comment.required(),
-  });
-
-  static readonly CommentsResponse = Joi.object({
-    comments: Joi.array().items(ArticleSchemas.Comment).required(),
-  });
-}
\ No newline at end of file
+  static readonly Author = ConduitSchemas.Profile;
+  static readonly Article = ConduitSchemas.Article;
+  static readonly ArticleResponse = ConduitSchemas.SingleArticleResponse;
+  static readonly ArticlesResponse = ConduitSchemas.MultipleArticlesResponse;
+  static readonly Comment = ConduitSchemas.Comment;
+  static readonly CommentResponse = ConduitSchemas.SingleCommentResponse;
+  static readonly CommentsResponse = ConduitSchemas.MultipleCommentsResponse;
+  static readonly TagsResponse = ConduitSchemas.TagsResponse;
+}
@@ -0,0 +1,5 @@
+import { ConduitSchemas } from "../generated/conduit.schemas";
+
+export class ErrorSchemas {
+  static readonly ErrorResponse = ConduitSchemas.GenericErrorModel;
+}
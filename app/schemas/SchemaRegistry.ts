@@ -0,0 +1,61 @@
+import Joi from "joi";
+import { ApiOperation, apiOperations } from "../generated/conduit.endpoints";
+import { ErrorSchemas } from "./ErrorSchemas";
+
+export interface SchemaRule {
+  method: string;       // "*" matches any method
+  path: string;         // endpoint template, e.g. "/api/articles/{slug}"; "*" matches any path
+  status: number;
+  schema: Joi.Schema;
+}
+
+/**
+ * Response schema for every documented operation + status from openapi/conduit.openapi.json.
+ * Rules are checked in order, so specific paths go before templated ones
+ * (e.g. "/api/articles/feed" before "/api/articles/{slug}").
+ */
+export const schemaRegistry: SchemaRule[] = [
+  ...apiOperations.flatMap((operation) =>
+    Object.entries(operation.responses)
+      .filter((entry): entry is [string, Joi.Schema] => entry[1] !== null)
+      .map(([status, schema]) => ({ method: operation.method, path: operation.path, status: Number(status), schema }))
+  ),
+
+  { method: "*", path: "*", status: 422, schema: ErrorSchemas.ErrorResponse },
+];
+
+const patternCache = new Map<string, RegExp>();
+
+function toPattern(template: string): RegExp {
+  let pattern = patternCache.get(template);
+  if (!pattern) {
+    const source = template
+      .replace(/\/+$/, "")
+      .replace(/[.*+?^$()|[\]\\]/g, "\\$&")
+      .replace(/\{\w+\}/g, "[^/]+");
+    pattern = new RegExp(`^${source}/?$`);
+    patternCache.set(template, pattern);
+  }
+  return pattern;
+}
+
+// Relative or absolute URL to a path without query, e.g. "http://host/api/tags?x=1" -> "/api/tags"
+function toPath(url: string): string {
+  return new URL(url, "http://localhost").pathname;
+}
+
+export function findSchemaRule(method: string, url: string, status: number): SchemaRule | undefined {
+  const path = toPath(url);
+  return schemaRegistry.find((rule) =>
+    rule.status === status &&
+    (rule.method === "*" || rule.method === method.toUpperCase()) &&
+    (rule.path === "*" || toPattern(rule.path).test(path))
+  );
+}
+
+export function findApiOperation(method: string, url: string): ApiOperation | undefined {
+  const path = toPath(url);
+  return apiOperations.find((operation) =>
+    operation.method === method.toUpperCase() && toPattern(operation.path).test(path)
+  );
+}
@@ -1,15 +1,9 @@
-import Joi from "joi";
+import { ConduitSchemas } from "../generated/conduit.schemas";
 
+// Schemas are generated from openapi/conduit.openapi.json, this class keeps the names used by the specs
 export class UserSchemas {
-  static readonly User = Joi.object({
-    username: Joi.string().required(),
-    email: Joi.string().email().required(),
-    token: Joi.string().required(),
-    bio: Joi.string().optional().allow(""),
-    image: Joi.string().uri().required(),
-  });
-
-  static readonly UserResponse = Joi.object({
-    user: UserSchemas.User,
-  });
+  static readonly User = ConduitSchemas.User;
+  static readonly UserResponse = ConduitSchemas.UserResponse;
+  static readonly Profile = ConduitSchemas.Profile;
+  static readonly ProfileResponse = ConduitSchemas.ProfileResponse;
 }
@@ -1,30 +1,145 @@
-import { test as base, request } from "@playwright/test";
+import { en, Faker, faker } from "@faker-js/faker";
+import { test as base, expect as baseExpect } from "@playwright/test";
 import { APIClient } from "../api-client/ApiClient";
+import { HttpCassette } from "../api-client/HttpCassette";
+import { HttpRecorder } from "../api-client/HttpRecorder";
+import { ResourceLedger } from "../api-client/ResourceLedger";
+import { getValidAuthState } from "../helpers/auth.helper";
+import { deriveSeed } from "../helpers/data.helper";
+import { getAuthHeaders, getDataSeed, getHttpReplayMode } from "../helpers/env.helper";
+import { apiMatchers } from "./matchers";
+import { PoolUser, provisionUserPool, releaseUserPool } from "../helpers/user-pool.helper";
 
 type Fixtures = {
+  httpCassette: HttpCassette | undefined;
+  dataSeed: number;
+  httpRecorder: HttpRecorder;
+  resourceLedger: ResourceLedger;
   apiClientNoAuth: APIClient;
   apiClientAuth: APIClient;
 };
 
-export const test = base.extend<Fixtures>({
+type WorkerFixtures = {
+  userPoolSize: number;
+  userPool: PoolUser[];
+};
+
+export const test = base.extend<Fixtures, WorkerFixtures>({
+  // Records the test's controller calls into a cassette or replays them from it, see HTTP_REPLAY in README
+  httpCassette: [async ({}, use, testInfo) => {
+    const mode = getHttpReplayMode();
+    const cassette = mode === "off" ? undefined : new HttpCassette(mode, HttpCassette.fileFor(testInfo));
+    HttpCassette.current = cassette;
+    await use(cassette);
+    HttpCassette.current = undefined;
+
+    if (cassette?.mode === "record") {
+      cassette.save(testInfo.titlePath);
+      if (testInfo.status !== testInfo.expectedStatus && cassette.entries.length > 0) {
+        await testInfo.attach("http-cassette.json", { path: cassette.file, contentType: "application/json" });
+      }
+    }
+  }, { auto: true }],
+
+  // Seeds faker from DATA_SEED, the test ID and the retry, a replayed test takes the seed of its recording. See DATA_SEED in README
+  dataSeed: [async ({ httpCassette }, use, testInfo) => {
+    const runSeed = getDataSeed();
+    const recordedSeed = httpCassette?.mode === "replay" ? httpCassette.dataSeed : undefined;
+    const seed = recordedSeed ?? deriveSeed(runSeed, testInfo.testId, testInfo.retry);
+    if (httpCassette) {
+      httpCassette.dataSeed = seed;
+    }
+    faker.seed(seed);
+    await use(seed);
+
+    if (testInfo.status !== testInfo.expectedStatus) {
+      const repeat = recordedSeed !== undefined
+        ? `seed ${seed} of ${httpCassette!.file}`
+        : `DATA_SEED=${runSeed}` + (testInfo.retry > 0 ? ` (retry ${testInfo.retry})` : "");
+      testInfo.annotations.push({ type: "data-seed", description: `${seed}, repeat with ${repeat}` });
+      console.warn(`\x1b[33m[SEED]\x1b[0m ${testInfo.title}: generated data repeats with ${repeat}`);
+    }
+  }, { auto: true }],
+
+  // Records every controller call of the test and attaches it to the report, see HTTP_RECORDER in README
+  httpRecorder: [async ({ baseURL }, use, testInfo) => {
+    const recorder = new HttpRecorder(baseURL);
+    HttpRecorder.current = process.env.HTTP_RECORDER === "off" ? undefined : recorder;
+    await use(recorder);
+    HttpRecorder.current = undefined;
+
+    if (recorder.exchanges.length > 0) {
+      await testInfo.attach("http-exchanges.json", {
+        body: JSON.stringify(recorder.exchanges, null, 2),
+        contentType: "application/json",
+      });
+    }
+
+    const failingExchanges = recorder.failingExchanges;
+    if (testInfo.status !== testInfo.expectedStatus && failingExchanges.length > 0) {
+      const commands = failingExchanges.map((exchange) => `# ${exchange.method} ${exchange.url} -> ${exchange.status ?? exchange.error}\n${exchange.curl}`);
+      await testInfo.attach("failing-requests.sh", {
+        body: commands.join("\n\n"),
+        contentType: "text/plain",
+      });
+    }
+  }, { auto: true }],
+
+  // Undoes everything the controllers created during the test, in reverse order.
+  // Depends on `httpCassette`, `httpRecorder` and `request` so cleanup calls are recorded and the request context is still open.
+  resourceLedger: [async ({ httpCassette, httpRecorder, request }, use, testInfo) => {
+    const ledger = new ResourceLedger();
+    ResourceLedger.current = ledger;
+    await use(ledger);
+    ResourceLedger.current = undefined;
+
+    const report = await ledger.unwind();
+    if (report.failures.length > 0) {
+      await testInfo.attach("cleanup-report.json", {
+        body: JSON.stringify(report, null, 2),
+        contentType: "application/json",
+      });
+    }
+    for (const failure of report.failures) {
+      console.warn(`\x1b[33m[CLEANUP]\x1b[0m ${testInfo.title}: ${failure.kind} ${failure.id} was not removed (${failure.reason})`);
+    }
+  }, { auto: true }],
+
   apiClientNoAuth: async ({ request }, use) => {
     const apiClient = new APIClient(request);
     await use(apiClient);
   },
 
-  apiClientAuth: async ({ }, use) => {
-    const token = process.env.TOKEN;
-    if (!token) {
-      throw new Error("Environment variable TOKEN is not defined.");
-    }
-
-    const requestWithToken = await request.newContext({
-      extraHTTPHeaders: { Authorization: `Token ${token}` },
-    });
+  apiClientAuth: async ({ playwright, request, baseURL }, use) => {
+    const { token } = await getValidAuthState(playwright.request, baseURL);
 
-    const apiClientWithToken = new APIClient(requestWithToken);
+    const apiClientWithToken = new APIClient(request, getAuthHeaders(token));
     await use(apiClientWithToken);
   },
+
+  // Number of users in the pool, override with test.use({ userPoolSize: N }) in a spec file
+  userPoolSize: [3, { scope: "worker", option: true }],
+
+  // Fresh registered users shared by the tests of one worker
+  userPool: [async ({ playwright, userPoolSize }, use, workerInfo) => {
+    const mode = getHttpReplayMode();
+    const cassette = mode === "off" ? undefined : new HttpCassette(mode, HttpCassette.workerFileFor(workerInfo, `user-pool-${userPoolSize}`));
+
+    // Own generator, so the pool users do not depend on which test happened to start the worker
+    const generator = new Faker({ locale: en });
+    const seed = cassette?.dataSeed ?? deriveSeed(getDataSeed(), workerInfo.project.name, "user-pool", workerInfo.workerIndex);
+    generator.seed(seed);
+    if (cassette) {
+      cassette.dataSeed = seed;
+    }
+
+    // The pool is created lazily by the first test that uses it, its users do not belong to that test's ledger
+    const pool = await HttpCassette.use(cassette, () => ResourceLedger.suspend(() =>
+      provisionUserPool(playwright.request, workerInfo.project.use.baseURL, userPoolSize, generator)));
+    await use(pool);
+    await HttpCassette.use(cassette, () => releaseUserPool(pool));
+    cassette?.save([`user pool of ${userPoolSize}`]);
+  }, { scope: "worker" }],
 });
 
-export { expect } from "@playwright/test";
+export const expect = baseExpect.extend(apiMatchers);
@@ -0,0 +1,80 @@
+import { ExpectMatcherState } from "@playwright/test";
+import Joi from "joi";
+import { isDeepStrictEqual } from "util";
+import { ApiResult } from "../app/interfaces/api.interface";
+
+const MAX_BODY_LENGTH = 2000;
+
+function isApiResult(value: unknown): value is ApiResult<unknown> {
+  return typeof value === "object" && value !== null && "response" in value && "status" in value && "body" in value;
+}
+
+function describeExchange(result: ApiResult<unknown>): string {
+  let body = typeof result.body === "string" ? result.body : JSON.stringify(result.body, null, 2);
+  if (body && body.length > MAX_BODY_LENGTH) {
+    body = body.substring(0, MAX_BODY_LENGTH) + "...";
+  }
+  return `Request: ${result.method} ${result.url}\nResponse body: ${body ?? "<empty>"}`;
+}
+
+/**
+ * API response matchers, registered on `expect` in fixtures.ts.
+ */
+export const apiMatchers = {
+  toHaveStatus(this: ExpectMatcherState, received: ApiResult<unknown>, expected: number) {
+    const name = "toHaveStatus";
+    const pass = received.status === expected;
+
+    return {
+      name,
+      pass,
+      expected,
+      actual: received.status,
+      message: () =>
+        this.utils.matcherHint(name, undefined, undefined, { isNot: this.isNot }) + "\n\n" +
+        `Expected status: ${this.isNot ? "not " : ""}${this.utils.printExpected(expected)}\n` +
+        `Received status: ${this.utils.printReceived(received.status)}\n\n` +
+        describeExchange(received),
+    };
+  },
+
+  // Accepts an ApiResult (its body is validated) or a plain value
+  toMatchSchema(this: ExpectMatcherState, received: unknown, schema: Joi.Schema) {
+    const name = "toMatchSchema";
+    const value = isApiResult(received) ? received.body : received;
+    const { error } = schema.validate(value, { abortEarly: false });
+    const pass = !error;
+
+    return {
+      name,
+      pass,
+      message: () =>
+        this.utils.matcherHint(name, undefined, undefined, { isNot: this.isNot }) + "\n\n" +
+        (pass
+          ? "Expected value not to match the schema, but it did"
+          : `Schema errors:\n${error!.details.map((detail) => `  - ${detail.message}`).join("\n")}`) +
+        "\n\n" +
+        (isApiResult(received) ? describeExchange(received) : `Received: ${this.utils.printReceived(value)}`),
+    };
+  },
+
+  // 422 response with exactly the given `{ errors }` map, e.g. { email: "can't be blank" }
+  toHaveValidationErrors(this: ExpectMatcherState, received: ApiResult<unknown>, expected: Partial<Record<string, string>>) {
+    const name = "toHaveValidationErrors";
+    const expectedBody = { errors: expected };
+    const pass = received.status === 422 && isDeepStrictEqual(received.body, expectedBody);
+
+    return {
+      name,
+      pass,
+      expected: expectedBody,
+      actual: received.body,
+      message: () =>
+        this.utils.matcherHint(name, undefined, undefined, { isNot: this.isNot }) + "\n\n" +
+        `Expected status: ${this.utils.printExpected(422)}\n` +
+        `Received status: ${this.utils.printReceived(received.status)}\n\n` +
+        this.utils.printDiffOrStringify(expectedBody, received.body, "Expected body", "Received body", false) + "\n\n" +
+        describeExchange(received),
+    };
+  },
+};
@@ -0,0 +1,190 @@
+import type { FullResult, Reporter } from "@playwright/test/reporter";
+import fs from "node:fs";
+import path from "node:path";
+import { CoverageHit, enableHitCollection, readCoverageHits } from "../api-client/ApiCoverage";
+import { apiOperations } from "../app/generated/conduit.endpoints";
+import { findApiOperation } from "../app/schemas/SchemaRegistry";
+
+interface CoverageConfig {
+  enabled?: boolean;
+  outputDir?: string;
+}
+
+interface ResponseCoverage {
+  status: number;
+  documented: boolean;
+  hits: number;
+}
+
+interface OperationCoverage {
+  operationId: string;
+  method: string;
+  path: string;
+  hits: number;
+  responses: ResponseCoverage[];
+}
+
+interface CoverageSummary {
+  operations: { covered: number; total: number };
+  responses: { covered: number; total: number };
+  undocumentedResponses: number;
+  unmatchedRequests: number;
+}
+
+interface CoverageReport {
+  generatedAt: string;
+  summary: CoverageSummary;
+  operations: OperationCoverage[];
+  unmatched: { method: string; path: string; status: number; hits: number }[];
+}
+
+/**
+ * Playwright reporter that shows which OpenAPI operations and documented response statuses the run exercised.
+ *
+ * Controllers append every response to `<outputDir>/hits/` (see api-client/ApiCoverage.ts), the reporter maps
+ * them to `apiOperations` from openapi/conduit.openapi.json and writes `coverage.json` and `index.html`.
+ */
+class CoverageReporter implements Reporter {
+  private enabled: boolean;
+  private outputDir: string;
+  private hitsDir: string;
+
+  constructor(options: CoverageConfig = {}) {
+    this.enabled = options.enabled ?? true;
+    this.outputDir = path.resolve(options.outputDir ?? "api-coverage");
+    this.hitsDir = path.join(this.outputDir, "hits");
+
+    if (this.enabled) {
+      // Workers are started after the reporters, so they inherit the variable
+      this.hitsDir = enableHitCollection(this.hitsDir);
+    }
+  }
+
+  onEnd(result: FullResult): void {
+    if (!this.enabled) {
+      return;
+    }
+
+    const report = this.buildReport(readCoverageHits(this.hitsDir));
+    fs.mkdirSync(this.outputDir, { recursive: true });
+    fs.writeFileSync(path.join(this.outputDir, "coverage.json"), JSON.stringify(report, null, 2));
+    fs.writeFileSync(path.join(this.outputDir, "index.html"), this.renderHtml(report));
+
+    const { operations, responses } = report.summary;
+    console.log(
+      `\nAPI coverage: ${operations.covered}/${operations.total} operations, ` +
+      `${responses.covered}/${responses.total} documented responses -> ${path.relative(process.cwd(), path.join(this.outputDir, "index.html"))}`
+    );
+  }
+
+  private buildReport(hits: CoverageHit[]): CoverageReport {
+    const operations: OperationCoverage[] = apiOperations.map((operation) => ({
+      operationId: operation.operationId,
+      method: operation.method,
+      path: operation.path,
+      hits: 0,
+      responses: Object.keys(operation.responses).map((status) => ({ status: Number(status), documented: true, hits: 0 })),
+    }));
+    const unmatched = new Map<string, CoverageReport["unmatched"][number]>();
+
+    for (const hit of hits) {
+      const operation = findApiOperation(hit.method, hit.url);
+      const coverage = operation && operations.find((item) => item.operationId === operation.operationId);
+      if (!coverage) {
+        const hitPath = new URL(hit.url, "http://localhost").pathname;
+        const key = `${hit.method} ${hitPath} ${hit.status}`;
+        const entry = unmatched.get(key) ?? { method: hit.method, path: hitPath, status: hit.status, hits: 0 };
+        entry.hits++;
+        unmatched.set(key, entry);
+        continue;
+      }
+
+      coverage.hits++;
+      let response = coverage.responses.find((item) => item.status === hit.status);
+      if (!response) {
+        response = { status: hit.status, documented: false, hits: 0 };
+        coverage.responses.push(response);
+        coverage.responses.sort((a, b) => a.status - b.status);
+      }
+      response.hits++;
+    }
+
+    const documented = operations.flatMap((operation) => operation.responses.filter((response) => response.documented));
+    return {
+      generatedAt: new Date().toISOString(),
+      summary: {
+        operations: { covered: operations.filter((operation) => operation.hits > 0).length, total: operations.length },
+        responses: { covered: documented.filter((response) => response.hits > 0).length, total: documented.length },
+        undocumentedResponses: operations.flatMap((operation) => operation.responses).filter((response) => !response.documented).length,
+        unmatchedRequests: [...unmatched.values()].reduce((sum, entry) => sum + entry.hits, 0),
+      },
+      operations,
+      unmatched: [...unmatched.values()],
+    };
+  }
+
+  private renderHtml(report: CoverageReport): string {
+    const escape = (value: string) =>
+      value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+    const percent = ({ covered, total }: { covered: number; total: number }) =>
+      total === 0 ? "0%" : `${Math.round((covered / total) * 100)}%`;
+
+    const badge = (response: ResponseCoverage) => {
+      const cssClass = !response.documented ? "undocumented" : response.hits > 0 ? "covered" : "uncovered";
+      const title = response.documented ? `${response.hits} hits` : `${response.hits} hits, not in the specification`;
+      return `<span class="status ${cssClass}" title="${title}">${response.status} <small>${response.hits}</small></span>`;
+    };
+
+    const rows = report.operations.map((operation) => `
+      <tr class="${operation.hits > 0 ? "" : "missing"}">
+        <td><code>${operation.method}</code></td>
+        <td><code>${escape(operation.path)}</code></td>
+        <td>${escape(operation.operationId)}</td>
+        <td>${operation.hits}</td>
+        <td>${operation.responses.map(badge).join(" ")}</td>
+      </tr>`).join("");
+
+    const unmatchedRows = report.unmatched.map((entry) => `
+      <tr><td><code>${entry.method}</code></td><td><code>${escape(entry.path)}</code></td><td>${entry.status}</td><td>${entry.hits}</td></tr>`).join("");
+
+    const { summary } = report;
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>API coverage</title>
+<style>
+  body { font-family: sans-serif; margin: 2rem; color: #222; }
+  table { border-collapse: collapse; margin-bottom: 2rem; }
+  th, td { border: 1px solid #ddd; padding: 0.4rem 0.6rem; text-align: left; }
+  tr.missing td { background: #fff4f4; }
+  .status { display: inline-block; padding: 0.1rem 0.4rem; border-radius: 4px; margin: 0.1rem; }
+  .covered { background: #d4f5d4; }
+  .uncovered { background: #f8d0d0; }
+  .undocumented { background: #fde9b8; }
+</style>
+</head>
+<body>
+<h1>API coverage</h1>
+<p>Generated ${escape(report.generatedAt)} from <code>openapi/conduit.openapi.json</code></p>
+<ul>
+  <li>Operations: ${summary.operations.covered}/${summary.operations.total} (${percent(summary.operations)})</li>
+  <li>Documented responses: ${summary.responses.covered}/${summary.responses.total} (${percent(summary.responses)})</li>
+  <li>Undocumented statuses seen: ${summary.undocumentedResponses}</li>
+  <li>Requests outside the specification: ${summary.unmatchedRequests}</li>
+</ul>
+<p><span class="status covered">covered</span> <span class="status uncovered">not covered</span> <span class="status undocumented">not in specification</span></p>
+<table>
+  <tr><th>Method</th><th>Path</th><th>Operation</th><th>Hits</th><th>Responses</th></tr>${rows}
+</table>
+${report.unmatched.length > 0 ? `<h2>Requests outside the specification</h2>
+<table>
+  <tr><th>Method</th><th>Path</th><th>Status</th><th>Hits</th></tr>${unmatchedRows}
+</table>` : ""}
+</body>
+</html>
+`;
+  }
+}
+
+export default CoverageReporter;
@@ -1,4 +1,7 @@
 import dotenv from "dotenv";
+import { DiscordEmbed, DiscordWebhookPayload } from "./notifications/DiscordChannel";
+import { postJson } from "./notifications/NotificationChannel";
+import { formatDuration } from "./notifications/RunSummary";
 
 // Load .env file for Discord credentials
 dotenv.config();
@@ -7,25 +10,7 @@ dotenv.config();
 // Types & Interfaces
 // ============================================================================
 
-export interface DiscordEmbed {
-  title: string;
-  description?: string;
-  color: number;
-  fields: Array<{
-    name: string;
-    value: string;
-    inline?: boolean;
-  }>;
-  footer?: {
-    text: string;
-  };
-  timestamp?: string;
-}
-
-export interface DiscordWebhookPayload {
-  content?: string;
-  embeds: DiscordEmbed[];
-}
+export type { DiscordEmbed, DiscordWebhookPayload };
 
 export interface NotificationOptions {
   title: string;
@@ -139,29 +124,7 @@ class DiscordNotificationService {
     webhookUrl: string,
     payload: DiscordWebhookPayload
   ): Promise<boolean> {
-    try {
-      const response = await fetch(webhookUrl, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(payload),
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error(
-          `[Discord Notification] Failed to send - Status: ${response.status}, Error: ${errorText}`
-        );
-        return false;
-      }
-
-      console.log("[Discord Notification] Sent successfully");
-      return true;
-    } catch (error) {
-      console.error(`[Discord Notification] Error - ${error}`);
-      return false;
-    }
+    return postJson("Discord", webhookUrl, payload);
   }
 }
 
@@ -200,7 +163,7 @@ export class TaskNotificationHelper {
 
     const statusConfig = this.getStatusConfig(status);
     const durationText = duration
-      ? this.formatDuration(duration)
+      ? formatDuration(duration)
       : undefined;
 
     const fields: NotificationOptions["fields"] = [];
@@ -338,25 +301,6 @@ export class TaskNotificationHelper {
         };
     }
   }
-
-  /**
-   * Format duration in milliseconds to human-readable string
-   */
-  private formatDuration(ms: number): string {
-    const seconds = Math.floor(ms / 1000);
-    const minutes = Math.floor(seconds / 60);
-    const hours = Math.floor(minutes / 60);
-    const remainingMinutes = minutes % 60;
-    const remainingSeconds = seconds % 60;
-
-    if (hours > 0) {
-      return `${hours}h ${remainingMinutes}m ${remainingSeconds}s`;
-    }
-    if (minutes > 0) {
-      return `${minutes}m ${remainingSeconds}s`;
-    }
-    return `${seconds}s`;
-  }
 }
 
 // ============================================================================
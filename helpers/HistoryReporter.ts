@@ -0,0 +1,72 @@
+import type { FullResult, Reporter, TestCase, TestResult } from "@playwright/test/reporter";
+import fs from "node:fs";
+import path from "node:path";
+import { formatHistoryReport, saveRun, TestRecord } from "./history.helper";
+
+interface HistoryConfig {
+  enabled?: boolean;
+  outputFile?: string;
+  maxRuns?: number;
+  reportRuns?: number;
+  maxTestsToShow?: number;
+}
+
+/**
+ * Playwright reporter that keeps the outcome, duration and retries of every test across runs.
+ *
+ * Each run is appended to `outputFile` (the newest `maxRuns` runs are kept). The report over the last `reportRuns` runs,
+ * pass-rate trend, slowest tests and flakiness per test, is printed and written to `report.txt` next to it.
+ * NotificationReporter reads the same file to tell newly failing tests from already failing ones.
+ */
+class HistoryReporter implements Reporter {
+  private enabled: boolean;
+  private outputFile: string;
+  private maxRuns: number;
+  private reportRuns: number;
+  private maxTestsToShow: number;
+  private tests = new Map<string, TestRecord>();
+
+  constructor(options: HistoryConfig = {}) {
+    this.enabled = options.enabled ?? true;
+    this.outputFile = path.resolve(options.outputFile ?? "test-history/history.json");
+    this.maxRuns = options.maxRuns ?? 50;
+    this.reportRuns = options.reportRuns ?? 10;
+    this.maxTestsToShow = options.maxTestsToShow ?? 5;
+
+    if (this.reportRuns > this.maxRuns) {
+      throw new Error(`HistoryReporter: reportRuns (${this.reportRuns}) cannot be greater than maxRuns (${this.maxRuns}).`);
+    }
+  }
+
+  onTestEnd(test: TestCase, result: TestResult): void {
+    // Retries replace the earlier attempts, the outcome covers all of them
+    this.tests.set(test.id, {
+      id: test.id,
+      title: test.title,
+      file: path.basename(test.location.file),
+      project: test.parent.project()?.name ?? "",
+      outcome: test.outcome(),
+      durationMs: result.duration,
+      retries: result.retry,
+    });
+  }
+
+  onEnd(result: FullResult): void {
+    if (!this.enabled || this.tests.size === 0) {
+      return;
+    }
+
+    const history = saveRun(this.outputFile, {
+      startedAt: result.startTime.toISOString(),
+      status: result.status,
+      durationMs: result.duration,
+      tests: [...this.tests.values()],
+    }, this.maxRuns);
+
+    const report = formatHistoryReport(history.runs.slice(-this.reportRuns), this.maxTestsToShow);
+    fs.writeFileSync(path.join(path.dirname(this.outputFile), "report.txt"), report + "\n");
+    console.log(`\n${report}`);
+  }
+}
+
+export default HistoryReporter;
@@ -0,0 +1,101 @@
+import type { FullConfig, FullResult, Reporter, Suite, TestCase, TestResult } from "@playwright/test/reporter";
+import dotenv from "dotenv";
+import { DiscordChannel } from "./notifications/DiscordChannel";
+import { ChannelOptions, NotificationChannel } from "./notifications/NotificationChannel";
+import { RunSummary, RunSummaryCollector } from "./notifications/RunSummary";
+import { SlackChannel } from "./notifications/SlackChannel";
+import { TeamsChannel } from "./notifications/TeamsChannel";
+import { TelegramChannel } from "./notifications/TelegramChannel";
+import { WebhookChannel } from "./notifications/WebhookChannel";
+
+// Load .env file for channel credentials
+dotenv.config();
+
+export interface NotificationConfig {
+  enabled?: boolean;
+  channels?: ChannelOptions[];
+  performanceSummaryFile?: string;
+  historyFile?: string;
+}
+
+const channelFactories: Record<ChannelOptions["type"], (options: ChannelOptions) => NotificationChannel> = {
+  discord: (options) => new DiscordChannel(options),
+  telegram: (options) => new TelegramChannel(options),
+  slack: (options) => new SlackChannel(options),
+  teams: (options) => new TeamsChannel(options),
+  webhook: (options) => new WebhookChannel(options),
+};
+
+/**
+ * Playwright reporter that gathers the run results once and sends them to every configured channel
+ * (Discord, Telegram, Slack, Microsoft Teams, generic JSON webhook).
+ *
+ * Each channel has its own filters: `when` ("always", "failure", "success") and `projects`.
+ * Must be listed after PerformanceReporter in playwright.config.ts, the latency section comes from its summary file.
+ * Failed tests are compared with the earlier runs in the HistoryReporter file to mark new failures.
+ */
+class NotificationReporter implements Reporter {
+  private enabled: boolean;
+  private channels: ChannelOptions[];
+  private collector: RunSummaryCollector;
+
+  constructor(options: NotificationConfig = {}) {
+    this.enabled = options.enabled ?? false;
+    this.channels = options.channels ?? [];
+    this.collector = new RunSummaryCollector(
+      options.performanceSummaryFile ?? "api-coverage/performance.json",
+      options.historyFile ?? "test-history/history.json"
+    );
+
+    for (const channel of this.channels) {
+      if (!channelFactories[channel.type]) {
+        throw new Error(`Unknown notification channel "${channel.type}". Available channels: ${Object.keys(channelFactories).join(", ")}.`);
+      }
+    }
+  }
+
+  onBegin(config: FullConfig, suite: Suite): void {
+    this.collector.begin(config);
+  }
+
+  onTestEnd(test: TestCase, result: TestResult): void {
+    this.collector.add(test, result);
+  }
+
+  async onEnd(result: FullResult): Promise<void> {
+    if (!this.enabled) {
+      return;
+    }
+
+    for (const options of this.channels) {
+      const channel = channelFactories[options.type](options);
+      const missing = channel.missingConfiguration();
+      if (missing) {
+        console.log(`[${channel.name} Notification] Skipped - missing ${missing} in .env file`);
+        continue;
+      }
+
+      const summary = this.collector.summarize(result, options.projects);
+      if (summary.stats.total === 0 && options.projects && summary.status === "passed") {
+        continue;
+      }
+      if (!this.matchesWhen(options.when ?? "always", summary)) {
+        continue;
+      }
+      await channel.send(summary);
+    }
+  }
+
+  private matchesWhen(when: NonNullable<ChannelOptions["when"]>, summary: RunSummary): boolean {
+    switch (when) {
+      case "failure":
+        return summary.status !== "passed";
+      case "success":
+        return summary.status === "passed";
+      default:
+        return true;
+    }
+  }
+}
+
+export default NotificationReporter;
@@ -0,0 +1,57 @@
+import type { FullResult, Reporter } from "@playwright/test/reporter";
+import fs from "node:fs";
+import path from "node:path";
+import { enableHitCollection, readCoverageHits } from "../api-client/ApiCoverage";
+import { EndpointLatency, formatLatencyTable, summarizeLatency } from "./latency.helper";
+
+interface PerformanceConfig {
+  enabled?: boolean;
+  outputFile?: string;
+}
+
+interface PerformanceSummary {
+  generatedAt: string;
+  endpoints: EndpointLatency[];
+}
+
+/**
+ * Playwright reporter that prints p50/p95/max response time per endpoint and the number of budget breaches.
+ *
+ * Durations come from the hits written by the controllers (see api-client/ApiCoverage.ts), aggregation from latency.helper.ts.
+ * The summary is also written to `outputFile`, which NotificationReporter includes in its messages,
+ * so this reporter must be listed before it in playwright.config.ts.
+ */
+class PerformanceReporter implements Reporter {
+  private enabled: boolean;
+  private outputFile: string;
+  private hitsDir: string = "";
+
+  constructor(options: PerformanceConfig = {}) {
+    this.enabled = options.enabled ?? true;
+    this.outputFile = path.resolve(options.outputFile ?? "api-coverage/performance.json");
+
+    if (this.enabled) {
+      this.hitsDir = enableHitCollection(path.join(path.dirname(this.outputFile), "hits"));
+    }
+  }
+
+  onEnd(result: FullResult): void {
+    if (!this.enabled) {
+      return;
+    }
+
+    const summary = this.buildSummary();
+    fs.mkdirSync(path.dirname(this.outputFile), { recursive: true });
+    fs.writeFileSync(this.outputFile, JSON.stringify(summary, null, 2));
+
+    if (summary.endpoints.length > 0) {
+      console.log(`\n${formatLatencyTable("API latency:", summary.endpoints)}`);
+    }
+  }
+
+  private buildSummary(): PerformanceSummary {
+    return { generatedAt: new Date().toISOString(), endpoints: summarizeLatency(readCoverageHits(this.hitsDir)) };
+  }
+}
+
+export default PerformanceReporter;
@@ -0,0 +1,174 @@
+import { APIRequest } from "@playwright/test";
+import fs from "fs";
+import path from "path";
+import { APIClient } from "../api-client/ApiClient";
+import { HttpCassette } from "../api-client/HttpCassette";
+import { signToken } from "../local-server/token";
+import { debugPrint } from "./debug.helper";
+import { getAuthHeaders, getEnvironment, getEnvUserCredentials, getHttpReplayMode } from "./env.helper";
+
+export interface AuthState {
+  token: string;
+  username: string;
+  email: string;
+  baseURL: string;
+  expiresAt?: string;
+  createdAt: string;
+}
+
+// Tokens expiring within this window are treated as stale
+const EXPIRY_MARGIN_MS = 60 * 1000;
+
+// Tokens the server accepted in this process, checked once per worker
+const acceptedTokens = new Set<string>();
+
+export function getAuthStateFile(): string {
+  return process.env.AUTH_STATE_FILE || path.resolve(__dirname, "../playwright/.auth/user.json");
+}
+
+export function createAuthState(user: { token: string; username: string; email: string }, baseURL: string | undefined): AuthState {
+  const expiry = getTokenExpiry(user.token);
+  return {
+    token: user.token,
+    username: user.username,
+    email: user.email,
+    baseURL: baseURL || "",
+    expiresAt: expiry?.toISOString(),
+    createdAt: new Date().toISOString(),
+  };
+}
+
+export function saveAuthState(state: AuthState) {
+  const file = getAuthStateFile();
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+
+  // Write to a temp file first so a parallel worker never reads a half-written state
+  const tempFile = `${file}.${process.pid}.tmp`;
+  fs.writeFileSync(tempFile, JSON.stringify(state, null, 2));
+  fs.renameSync(tempFile, file);
+  debugPrint("Auth state saved to " + file);
+}
+
+export function loadAuthState(): AuthState | undefined {
+  const file = getAuthStateFile();
+  if (!fs.existsSync(file)) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(fs.readFileSync(file, "utf8")) as AuthState;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Reads `exp` from a JWT token. Returns undefined for tokens that are not JWT.
+ */
+export function getTokenExpiry(token: string): Date | undefined {
+  const payload = token.split(".")[1];
+  if (!payload) {
+    return undefined;
+  }
+  try {
+    const { exp } = JSON.parse(Buffer.from(payload, "base64url").toString("utf8"));
+    return typeof exp === "number" ? new Date(exp * 1000) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * `token` with `exp` an hour in the past, signed with LOCAL_SERVER_TOKEN_SECRET.
+ * Undefined outside the local environment: other servers' secrets are not known, so an expired token cannot be made.
+ */
+export function createExpiredToken(token: string): string | undefined {
+  const secret = process.env.LOCAL_SERVER_TOKEN_SECRET;
+  const [header, payload] = token.split(".");
+  if (!getEnvironment().localServer || !secret || !payload) {
+    return undefined;
+  }
+
+  const exp = Math.floor(Date.now() / 1000) - 60 * 60;
+  const claims = { ...JSON.parse(Buffer.from(payload, "base64url").toString("utf8")), iat: exp - 60, exp };
+  const expiredPayload = Buffer.from(JSON.stringify(claims)).toString("base64url");
+  return `${header}.${expiredPayload}.${signToken(`${header}.${expiredPayload}`, secret)}`;
+}
+
+/**
+ * Returns the reason why the saved state can't be used, or undefined if it is fine.
+ */
+export function getAuthStateProblem(state: AuthState | undefined, baseURL: string | undefined, username: string): string | undefined {
+  if (!state || !state.token) {
+    return "is missing";
+  }
+  if (state.baseURL !== (baseURL || "")) {
+    return `belongs to another environment (${state.baseURL})`;
+  }
+  if (state.username.toLowerCase() !== username.toLowerCase()) {
+    return `belongs to another user (${state.username})`;
+  }
+  if (state.expiresAt && new Date(state.expiresAt).getTime() - EXPIRY_MARGIN_MS < Date.now()) {
+    return `has expired (${state.expiresAt})`;
+  }
+  return undefined;
+}
+
+export async function loginAndSaveAuthState(request: APIRequest, baseURL: string | undefined): Promise<AuthState> {
+  const { USER_EMAIL, USER_PASSWORD } = getEnvUserCredentials();
+  const anonymousRequest = await request.newContext({ baseURL });
+
+  try {
+    const loginResponse = await new APIClient(anonymousRequest).user.loginUser(USER_EMAIL, USER_PASSWORD);
+    if (loginResponse.status !== 200) {
+      throw new Error(`Re-login of ${USER_EMAIL} failed: ${loginResponse.status} ${JSON.stringify(loginResponse.body)}`);
+    }
+    const state = createAuthState(loginResponse.body.user, baseURL);
+    saveAuthState(state);
+    acceptedTokens.add(state.token);
+    return state;
+  } finally {
+    await anonymousRequest.dispose();
+  }
+}
+
+/**
+ * Asks GET /api/user whether the server still accepts `token`. A token can look valid and still be rejected:
+ * revoked, or signed with an old secret after the local server restarted.
+ * The call is kept out of the test's cassette; in replay mode there is no server to ask.
+ */
+export async function isTokenAccepted(request: APIRequest, baseURL: string | undefined, token: string): Promise<boolean> {
+  if (acceptedTokens.has(token) || getHttpReplayMode() === "replay") {
+    return true;
+  }
+
+  const context = await request.newContext({ baseURL });
+  try {
+    const response = await HttpCassette.use(undefined, () => new APIClient(context, getAuthHeaders(token)).user.getCurrentUser());
+    if (response.status === 401) {
+      return false;
+    }
+    acceptedTokens.add(token);
+    return true;
+  } finally {
+    await context.dispose();
+  }
+}
+
+/**
+ * Returns the saved auth state, logging in again when it is missing, stale, from another environment
+ * or rejected by the server.
+ */
+export async function getValidAuthState(request: APIRequest, baseURL: string | undefined): Promise<AuthState> {
+  const state = loadAuthState();
+  let problem = getAuthStateProblem(state, baseURL, getEnvUserCredentials().USER_NAME);
+
+  if (!problem && !(await isTokenAccepted(request, baseURL, state!.token))) {
+    problem = "was rejected by the server (401)";
+  }
+  if (!problem) {
+    return state!;
+  }
+
+  debugPrint(`Auth state ${problem}, logging in again`);
+  return loginAndSaveAuthState(request, baseURL);
+}
@@ -0,0 +1,169 @@
+import { faker } from "@faker-js/faker";
+import fs from "fs";
+import Joi from "joi";
+import path from "path";
+import { parse } from "yaml";
+import { APIClient } from "../api-client/ApiClient";
+import { ConduitSchemas } from "../app/generated/conduit.schemas";
+import { ApiResult } from "../app/interfaces/api.interface";
+import { getEnvUserCredentials } from "./env.helper";
+
+export type CaseAuth = "user" | "none";
+
+// Resource created with the `.env` user before the call, its fields are available as placeholders
+export type CaseGiven = "article";
+
+export interface CaseExpectation {
+  status: number;
+  body?: unknown;                    // subset of the response body
+  errors?: Record<string, string>;   // exact `{ errors }` map
+  schema?: Exclude<keyof typeof ConduitSchemas, "prototype">;   // e.g. "UserResponse", "GenericErrorModel"
+}
+
+export interface ApiCase {
+  id: string;                        // e.g. "TC-4001", unique across all case files
+  name: string;
+  call: string;                      // controller method of APIClient, e.g. "user.createUser"
+  args: unknown[];
+  auth: CaseAuth;
+  given?: CaseGiven;
+  vars: Record<string, unknown>;     // resolved first, referenced as {{vars.<name>}}
+  tags: string[];
+  expect: CaseExpectation;
+}
+
+export interface CaseFile {
+  file: string;
+  suite: string;
+  cases: ApiCase[];
+}
+
+type Controllers = Pick<APIClient, "user" | "article" | "comment" | "tag">;
+
+// Methods of `C` that make one call and return its ApiResult
+type ApiMethod<C> = { [M in keyof C]: C[M] extends (...args: never[]) => Promise<ApiResult<unknown>> ? M : never }[keyof C];
+
+// Controller methods a case file may call; paging helpers such as getAllArticles do not return an ApiResult
+const controllerMethods: { [C in keyof Controllers]: ApiMethod<Controllers[C]>[] } = {
+  user: ["createUser", "loginUser", "getCurrentUser", "editUser", "getUserProfile", "followUser", "unFollowUser"],
+  article: [
+    "createArticle", "getArticle", "editArticle", "deleteArticle", "addToFavorites", "removeFromFavorites",
+    "getArticles", "getFeed", "getFavoriteArticles", "getArticlesByAuthor", "getArticlesByTag", "getArticlesList",
+  ],
+  comment: ["addArticleComment", "getArticleComments", "deleteArticleComment"],
+  tag: ["getExistingTags"],
+};
+
+const tagSchema = Joi.string().pattern(/^@[\w-]+$/);
+
+const caseSchema = Joi.object({
+  id: Joi.string().required(),
+  name: Joi.string().required(),
+  call: Joi.string().required().custom((value: string) => {
+    const [controller, method, ...rest] = value.split(".");
+    const methods: string[] | undefined = controllerMethods[controller as keyof Controllers];
+    if (rest.length > 0 || !methods?.includes(method)) {
+      throw new Error(`"${value}" is not a controller method. Available: ${Object.entries(controllerMethods)
+        .flatMap(([name, methods]) => methods.map((method) => `${name}.${method}`)).join(", ")}`);
+    }
+    return value;
+  }),
+  args: Joi.array().default([]),
+  auth: Joi.string().valid("user", "none"),
+  given: Joi.string().valid("article"),
+  vars: Joi.object().default({}),
+  tags: Joi.array().items(tagSchema).default([]),
+  expect: Joi.object({
+    status: Joi.number().integer().min(100).max(599).required(),
+    body: Joi.any(),
+    errors: Joi.object().pattern(Joi.string(), Joi.string()),
+    schema: Joi.string().valid(...Object.keys(ConduitSchemas)),
+  }).required(),
+});
+
+const caseFileSchema = Joi.object({
+  suite: Joi.string().required(),
+  auth: Joi.string().valid("user", "none").default("user"),
+  tags: Joi.array().items(tagSchema).default([]),
+  cases: Joi.array().items(caseSchema).min(1).required(),
+});
+
+/**
+ * Reads every *.yaml, *.yml and *.json case file of `dir`, sorted by name.
+ * A file that does not match the format fails the test collection with the file name and the Joi message.
+ * File level `auth` and `tags` apply to every case of the file.
+ */
+export function loadCaseFiles(dir: string): CaseFile[] {
+  const files = fs.readdirSync(dir).filter((file) => /\.(ya?ml|json)$/.test(file)).sort();
+  const ids = new Map<string, string>();
+
+  return files.map((file) => {
+    const text = fs.readFileSync(path.join(dir, file), "utf-8");
+    const raw = file.endsWith(".json") ? JSON.parse(text) : parse(text);
+    const { value, error } = caseFileSchema.validate(raw, { abortEarly: false });
+    if (error) {
+      throw new Error(`Invalid case file ${file}: ${error.message}`);
+    }
+
+    const cases: ApiCase[] = value.cases.map((testCase: ApiCase) => {
+      const duplicate = ids.get(testCase.id);
+      if (duplicate) {
+        throw new Error(`Case id ${testCase.id} of ${file} is already used in ${duplicate}.`);
+      }
+      ids.set(testCase.id, file);
+      return { ...testCase, auth: testCase.auth ?? value.auth, tags: [...value.tags, ...testCase.tags] };
+    });
+    return { file, suite: value.suite, cases };
+  });
+}
+
+const PLACEHOLDER = /\{\{\s*([\w.]+)(?:\(([^)]*)\))?\s*\}\}/g;
+const SINGLE_PLACEHOLDER = new RegExp(`^${PLACEHOLDER.source}$`);
+
+// {{faker.<module>.<method>(args)}}, {{env.USER_EMAIL|USER_NAME|USER_PASSWORD}} or a value of `context`
+function evaluate(expression: string, args: string | undefined, context: Record<string, unknown>): unknown {
+  const [root, ...keys] = expression.split(".");
+  const source: unknown = root === "faker" ? faker : root === "env" ? getEnvUserCredentials() : context[root];
+
+  let value: unknown = source;
+  for (const key of keys) {
+    value = value !== null && typeof value === "object" ? (value as Record<string, unknown>)[key] : undefined;
+  }
+  if (typeof value === "function") {
+    // faker methods need their module as `this`
+    const owner = keys.slice(0, -1).reduce((object, key) => (object as Record<string, unknown>)[key], source);
+    value = value.apply(owner, args ? JSON.parse(`[${args}]`) : []);
+  }
+  if (value === undefined) {
+    throw new Error(`Unknown placeholder {{${expression}}}.`);
+  }
+  return value;
+}
+
+/**
+ * Replaces {{...}} placeholders in strings of `value`, recursively.
+ * A string that is a single placeholder takes the value as is, so {{faker.number.int}} stays a number.
+ */
+export function resolvePlaceholders(value: unknown, context: Record<string, unknown> = {}): unknown {
+  if (typeof value === "string") {
+    const single = value.match(SINGLE_PLACEHOLDER);
+    if (single) {
+      return evaluate(single[1], single[2], context);
+    }
+    return value.replace(PLACEHOLDER, (_, expression: string, args?: string) => String(evaluate(expression, args, context)));
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => resolvePlaceholders(item, context));
+  }
+  if (value !== null && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, resolvePlaceholders(item, context)]));
+  }
+  return value;
+}
+
+// Calls e.g. "article.editArticle" on the client with already resolved arguments
+export async function callController(client: APIClient, call: string, args: unknown[]): Promise<ApiResult<unknown>> {
+  const [controller, method] = call.split(".") as [keyof APIClient, string];
+  const target = client[controller] as unknown as Record<string, (...args: unknown[]) => Promise<ApiResult<unknown>>>;
+  return target[method](...args);
+}
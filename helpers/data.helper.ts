@@ -1,9 +1,25 @@
-import randomstring from 'randomstring';
+import { Faker, faker } from '@faker-js/faker';
+import crypto from 'crypto';
 
-export function generateRandomString(length: number = 10): string {
-  return randomstring.generate(length);
+// Generators take the shared `faker` by default, which the `dataSeed` fixture seeds for every test
+export function generateRandomString(length: number = 10, generator: Faker = faker): string {
+  return generator.string.alphanumeric(length);
 }
 
-export function generateRandomNumber(min: number = 1, max: number = 100): number {
-  return Math.floor(Math.random() * (max - min + 1)) + min;
-}
\ No newline at end of file
+export function generateRandomNumber(min: number = 1, max: number = 100, generator: Faker = faker): number {
+  return generator.number.int({ min, max });
+}
+
+// Stable 31-bit seed from any parts, e.g. deriveSeed(runSeed, testInfo.testId, testInfo.retry)
+export function deriveSeed(...parts: (string | number)[]): number {
+  return crypto.createHash("sha256").update(parts.join(":")).digest().readUInt32BE(0) >>> 1;
+}
+
+// Catalogue entries are generated again inside the test, so their faker values come from the test's seed
+export function caseById<T extends { testId: number }>(cases: T[], testId: number): T {
+  const testCase = cases.find((candidate) => candidate.testId === testId);
+  if (!testCase) {
+    throw new Error(`No test case with testId ${testId}.`);
+  }
+  return testCase;
+}
@@ -1,9 +1,160 @@
+import { AuthScheme, defaultEnvironment, EnvironmentCapabilities, environments } from "../app/environments";
+import { defaultRetryPolicy, RetryPolicy } from "../api-client/RetryPolicy";
+import { defaultLoadProfile, LoadProfile } from "../load/LoadProfile";
+import { FuzzOptions } from "./fuzz.helper";
+
+export interface Environment {
+  name: string;
+  baseURL: string;
+  credentials: {
+    USER_EMAIL?: string;
+    USER_NAME?: string;
+    USER_PASSWORD?: string;
+  };
+  authScheme: AuthScheme;
+  localServer: boolean;
+  capabilities: EnvironmentCapabilities;
+}
+
+// Profile is picked by TEST_ENV (local / staging / demo), values are read from process.env on every call
+export function getEnvironment(): Environment {
+  const name = process.env.TEST_ENV || defaultEnvironment;
+  const profile = environments[name];
+
+  if (!profile) {
+    throw new Error(`Unknown TEST_ENV "${name}". Available environments: ${Object.keys(environments).join(", ")}.`);
+  }
+
+  // A profile with built-in credentials does not fall back to the plain .env values, they belong to another backend
+  const read = (key: string) => process.env[profile.envPrefix + key] || (profile.defaultCredentials ? undefined : process.env[key]);
+  const localServerUrl = `http://127.0.0.1:${process.env.LOCAL_SERVER_PORT || 3100}`;
+  const baseURL = read("BASE_URL") || (profile.localServer ? localServerUrl : profile.baseURL);
+
+  if (!baseURL) {
+    throw new Error(`${profile.envPrefix}BASE_URL environment variable must be defined for TEST_ENV "${name}".`);
+  }
+
+  return {
+    name,
+    baseURL,
+    credentials: {
+      USER_EMAIL: read("USER_EMAIL") || profile.defaultCredentials?.USER_EMAIL,
+      USER_NAME: read("USER_NAME") || profile.defaultCredentials?.USER_NAME,
+      USER_PASSWORD: read("USER_PASSWORD") || profile.defaultCredentials?.USER_PASSWORD,
+    },
+    authScheme: profile.authScheme,
+    localServer: profile.localServer,
+    capabilities: {
+      ...profile.capabilities,
+      seededData: profile.capabilities.seededData && !(profile.localServer && process.env.LOCAL_SERVER_SEED === "false"),
+    },
+  };
+}
+
 export function getEnvUserCredentials() {
-  const { USER_EMAIL, USER_NAME, USER_PASSWORD } = process.env;
+  const { name, credentials } = getEnvironment();
+  const { USER_EMAIL, USER_NAME, USER_PASSWORD } = credentials;
 
   if (!USER_EMAIL || !USER_PASSWORD || !USER_NAME) {
-    throw new Error("USER_EMAIL, USER_NAME and USER_PASSWORD environment variables must be defined.");
+    throw new Error(`USER_EMAIL, USER_NAME and USER_PASSWORD environment variables must be defined for TEST_ENV "${name}".`);
   }
-  
+
   return { USER_EMAIL, USER_NAME, USER_PASSWORD };
 }
+
+export function getAuthHeaders(token: string) {
+  return { Authorization: `${getEnvironment().authScheme} ${token}` };
+}
+
+export type SchemaValidationMode = "off" | "warn" | "fail";
+
+// SCHEMA_VALIDATION controls automatic response validation in controllers
+export function getSchemaValidationMode(): SchemaValidationMode {
+  const mode = (process.env.SCHEMA_VALIDATION || "warn").toLowerCase();
+  if (mode !== "off" && mode !== "warn" && mode !== "fail") {
+    throw new Error(`Unknown SCHEMA_VALIDATION "${mode}". Use off, warn or fail.`);
+  }
+  return mode;
+}
+
+export type LatencyBudgetMode = "off" | "warn" | "fail";
+
+// LATENCY_BUDGET controls what a call slower than its budget in app/budgets.ts does
+export function getLatencyBudgetMode(): LatencyBudgetMode {
+  const mode = (process.env.LATENCY_BUDGET || "warn").toLowerCase();
+  if (mode !== "off" && mode !== "warn" && mode !== "fail") {
+    throw new Error(`Unknown LATENCY_BUDGET "${mode}". Use off, warn or fail.`);
+  }
+  return mode;
+}
+
+export type HttpReplayMode = "off" | "record" | "replay";
+
+// HTTP_REPLAY records controller traffic into cassettes or serves it from them, see api-client/HttpCassette.ts
+export function getHttpReplayMode(): HttpReplayMode {
+  const mode = (process.env.HTTP_REPLAY || "off").toLowerCase();
+  if (mode !== "off" && mode !== "record" && mode !== "replay") {
+    throw new Error(`Unknown HTTP_REPLAY "${mode}". Use off, record or replay.`);
+  }
+  return mode;
+}
+
+function readNonNegativeInteger(key: string, fallback: number): number {
+  const value = process.env[key];
+  if (value === undefined || value === "") {
+    return fallback;
+  }
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new Error(`${key} must be a non-negative integer, got "${value}".`);
+  }
+  return parsed;
+}
+
+// HTTP_RETRY_* variables override fields of defaultRetryPolicy, HTTP_RETRY_ATTEMPTS=1 disables retries
+export function getRetryPolicy(): RetryPolicy {
+  const readList = (key: string, fallback: string[]) =>
+    process.env[key] ? process.env[key]!.split(",").map((item) => item.trim().toUpperCase()) : fallback;
+
+  return {
+    ...defaultRetryPolicy,
+    maxAttempts: Math.max(1, readNonNegativeInteger("HTTP_RETRY_ATTEMPTS", defaultRetryPolicy.maxAttempts)),
+    methods: readList("HTTP_RETRY_METHODS", defaultRetryPolicy.methods),
+    statuses: readList("HTTP_RETRY_STATUSES", defaultRetryPolicy.statuses.map(String)).map(Number),
+    baseDelayMs: readNonNegativeInteger("HTTP_RETRY_BASE_DELAY_MS", defaultRetryPolicy.baseDelayMs),
+    maxElapsedMs: readNonNegativeInteger("HTTP_RETRY_MAX_ELAPSED_MS", defaultRetryPolicy.maxElapsedMs),
+  };
+}
+
+// LOAD_* variables override fields of defaultLoadProfile, durations are given in seconds
+export function getLoadProfile(): LoadProfile {
+  const seconds = (key: string, fallbackMs: number) => readNonNegativeInteger(key, fallbackMs / 1000) * 1000;
+  const maxErrorRate = Number(process.env.LOAD_MAX_ERROR_RATE || defaultLoadProfile.maxErrorRate);
+  if (Number.isNaN(maxErrorRate) || maxErrorRate < 0 || maxErrorRate > 1) {
+    throw new Error(`LOAD_MAX_ERROR_RATE must be a number between 0 and 1, got "${process.env.LOAD_MAX_ERROR_RATE}".`);
+  }
+
+  return {
+    scenario: process.env.LOAD_SCENARIO || defaultLoadProfile.scenario,
+    concurrency: Math.max(1, readNonNegativeInteger("LOAD_CONCURRENCY", defaultLoadProfile.concurrency)),
+    durationMs: seconds("LOAD_DURATION", defaultLoadProfile.durationMs),
+    rampUpMs: seconds("LOAD_RAMP_UP", defaultLoadProfile.rampUpMs),
+    iterations: readNonNegativeInteger("LOAD_ITERATIONS", defaultLoadProfile.iterations),
+    thinkTimeMs: readNonNegativeInteger("LOAD_THINK_TIME_MS", defaultLoadProfile.thinkTimeMs),
+    reportIntervalMs: Math.max(1000, seconds("LOAD_REPORT_INTERVAL", defaultLoadProfile.reportIntervalMs)),
+    maxErrorRate,
+  };
+}
+
+// FUZZ_RUNS inputs per property, FUZZ_SEED repeats the inputs of an earlier run instead of the test's data seed
+export function getFuzzOptions(dataSeed: number): FuzzOptions {
+  return {
+    runs: Math.max(1, readNonNegativeInteger("FUZZ_RUNS", 30)),
+    seed: readNonNegativeInteger("FUZZ_SEED", dataSeed),
+  };
+}
+
+// Seed of the generated test data of a run; playwright.config.ts sets a random one for all workers when DATA_SEED is not given
+export function getDataSeed(): number {
+  return readNonNegativeInteger("DATA_SEED", Math.floor(Math.random() * 2 ** 31));
+}
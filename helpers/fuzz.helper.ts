@@ -0,0 +1,129 @@
+// Seeded pseudo-random numbers in [0, 1), the same seed gives the same inputs
+export type Random = () => number;
+
+// Builds one input from the random source
+export type Arbitrary<T> = (random: Random) => T;
+
+export interface FuzzOptions {
+  runs: number;
+  seed: number;
+}
+
+export interface FuzzFailure<T> {
+  seed: number;
+  run: number;           // 1-based index of the generated input that failed
+  input: T;
+  shrunk: T;             // smallest input found that still fails
+  shrinkSteps: number;
+  reason: string;
+}
+
+// Upper limit of property calls spent on shrinking, every call is an HTTP request
+const MAX_SHRINK_CALLS = 200;
+
+// mulberry32
+export function createRandom(seed: number): Random {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function integer(random: Random, min: number, max: number): number {
+  return min + Math.floor(random() * (max - min + 1));
+}
+
+export function pick<T>(random: Random, items: readonly T[]): T {
+  return items[integer(random, 0, items.length - 1)];
+}
+
+export function stringOf(random: Random, alphabet: string, length: number): string {
+  return Array.from({ length }, () => pick(random, [...alphabet])).join("");
+}
+
+export function oneOf<T>(...arbitraries: Arbitrary<T>[]): Arbitrary<T> {
+  return (random) => pick(random, arbitraries)(random);
+}
+
+/**
+ * Simpler variants of a JSON-like value, most aggressive first:
+ * objects lose keys, arrays lose items, strings get shorter, numbers move to 0.
+ */
+export function shrinkValue(value: unknown): unknown[] {
+  if (typeof value === "string") {
+    // by code points, so emoji are not cut into invalid halves
+    const chars = Array.from(value);
+    const candidates = chars.length > 0 ? ["", chars.slice(0, Math.floor(chars.length / 2)).join("")] : [];
+    if (chars.length > 1) {
+      candidates.push(chars.slice(1).join(""), chars.slice(0, -1).join(""));
+    }
+    return candidates.filter((candidate, index) => candidate !== value && candidates.indexOf(candidate) === index);
+  }
+  if (typeof value === "number") {
+    return value === 0 ? [] : [0, Math.trunc(value / 2)].filter((candidate) => candidate !== value);
+  }
+  if (value === true) {
+    return [false];
+  }
+  if (Array.isArray(value)) {
+    return [
+      ...(value.length > 0 ? [[]] : []),
+      ...value.map((_, index) => value.filter((__, other) => other !== index)),
+      ...value.flatMap((item, index) => shrinkValue(item).map((smaller) => value.map((original, other) => other === index ? smaller : original))),
+    ];
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value);
+    return [
+      ...entries.map(([key]) => Object.fromEntries(entries.filter(([other]) => other !== key))),
+      ...entries.flatMap(([key, item]) => shrinkValue(item).map((smaller) => ({ ...value, [key]: smaller }))),
+    ];
+  }
+  return [];
+}
+
+/**
+ * Generates `runs` inputs and checks the property on each. The property returns a violation or undefined.
+ * The first failing input is shrunk: simpler variants are tried until none of them fails any more.
+ */
+export async function checkProperty<T>(
+  arbitrary: Arbitrary<T>,
+  property: (input: T) => Promise<string | undefined>,
+  options: FuzzOptions
+): Promise<FuzzFailure<T> | undefined> {
+  const random = createRandom(options.seed);
+
+  for (let run = 1; run <= options.runs; run++) {
+    const input = arbitrary(random);
+    const reason = await property(input);
+    if (reason === undefined) {
+      continue;
+    }
+
+    const failure: FuzzFailure<T> = { seed: options.seed, run, input, shrunk: input, shrinkSteps: 0, reason };
+    let calls = 0;
+    let improved = true;
+    while (improved && calls < MAX_SHRINK_CALLS) {
+      improved = false;
+      for (const candidate of shrinkValue(failure.shrunk) as T[]) {
+        if (++calls > MAX_SHRINK_CALLS) {
+          break;
+        }
+        const candidateReason = await property(candidate);
+        if (candidateReason !== undefined) {
+          failure.shrunk = candidate;
+          failure.reason = candidateReason;
+          failure.shrinkSteps++;
+          improved = true;
+          break;
+        }
+      }
+    }
+    return failure;
+  }
+  return undefined;
+}
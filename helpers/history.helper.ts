@@ -0,0 +1,205 @@
+import type { TestCase } from "@playwright/test/reporter";
+import fs from "node:fs";
+import path from "node:path";
+import { formatTable } from "./table.helper";
+
+export interface TestRecord {
+  id: string;                           // TestCase.id, stable while project, file and title do not change
+  title: string;
+  file: string;
+  project: string;
+  outcome: ReturnType<TestCase["outcome"]>;
+  durationMs: number;                   // last attempt
+  retries: number;
+}
+
+export interface RunRecord {
+  startedAt: string;
+  status: string;
+  durationMs: number;
+  tests: TestRecord[];
+}
+
+export interface RunHistory {
+  runs: RunRecord[];                    // oldest first
+}
+
+export interface RunTrend {
+  startedAt: string;
+  total: number;
+  failed: number;
+  flaky: number;
+  passRate: number;                     // 0..100, passed of the tests that were not skipped
+  partial: boolean;                     // fewer tests than the fullest of the runs, e.g. filtered with -g or --project
+}
+
+export interface TestTiming {
+  title: string;
+  project: string;
+  runs: number;
+  averageMs: number;
+  maxMs: number;
+}
+
+export interface TestFlakiness {
+  title: string;
+  project: string;
+  runs: number;
+  unstableRuns: number;
+  score: number;                        // unstableRuns / runs
+}
+
+export function loadRunHistory(file: string): RunHistory {
+  try {
+    const history = JSON.parse(fs.readFileSync(file, "utf-8"));
+    return Array.isArray(history.runs) ? history : { runs: [] };
+  } catch {
+    return { runs: [] };
+  }
+}
+
+// Appends `run` and keeps the newest `maxRuns` runs
+export function saveRun(file: string, run: RunRecord, maxRuns: number): RunHistory {
+  const history = loadRunHistory(file);
+  history.runs = [...history.runs, run].slice(-maxRuns);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(history, null, 2));
+  return history;
+}
+
+// Runs that started before `startedAt`, so a run is never compared with itself
+export function runsBefore(history: RunHistory, startedAt: Date): RunRecord[] {
+  return history.runs.filter((run) => Date.parse(run.startedAt) < startedAt.getTime());
+}
+
+function hasFailed(test: TestRecord): boolean {
+  return test.outcome === "unexpected";
+}
+
+export function passRateTrend(runs: RunRecord[]): RunTrend[] {
+  const fullSize = Math.max(0, ...runs.map((run) => run.tests.length));
+  return runs.map((run) => {
+    const executed = run.tests.filter((test) => test.outcome !== "skipped");
+    const failed = executed.filter(hasFailed).length;
+    return {
+      startedAt: run.startedAt,
+      total: run.tests.length,
+      failed,
+      flaky: executed.filter((test) => test.outcome === "flaky").length,
+      passRate: executed.length === 0 ? 100 : ((executed.length - failed) / executed.length) * 100,
+      partial: run.tests.length < fullSize,
+    };
+  });
+}
+
+// Executions of every test across `runs`, oldest first; skipped executions are left out
+function executionsById(runs: RunRecord[]): Map<string, TestRecord[]> {
+  const executions = new Map<string, TestRecord[]>();
+  for (const run of runs) {
+    for (const test of run.tests.filter((test) => test.outcome !== "skipped")) {
+      executions.set(test.id, [...(executions.get(test.id) ?? []), test]);
+    }
+  }
+  return executions;
+}
+
+export function slowestTests(runs: RunRecord[], max: number): TestTiming[] {
+  return [...executionsById(runs).values()]
+    .map((executions) => {
+      const durations = executions.map((test) => test.durationMs);
+      const { title, project } = executions[executions.length - 1];
+      return {
+        title,
+        project,
+        runs: executions.length,
+        averageMs: Math.round(durations.reduce((sum, duration) => sum + duration, 0) / durations.length),
+        maxMs: Math.max(...durations),
+      };
+    })
+    .sort((a, b) => b.averageMs - a.averageMs)
+    .slice(0, max);
+}
+
+/**
+ * Share of a test's runs that were unstable: it passed only on retry, or it failed where it passed
+ * in its previous run (or the other way round). Tests that are always stable are left out.
+ */
+export function flakyTests(runs: RunRecord[]): TestFlakiness[] {
+  return [...executionsById(runs).values()]
+    .map((executions) => {
+      const unstableRuns = executions.filter((test, index) =>
+        test.outcome === "flaky" || (index > 0 && hasFailed(test) !== hasFailed(executions[index - 1]))).length;
+      const { title, project } = executions[executions.length - 1];
+      return { title, project, runs: executions.length, unstableRuns, score: unstableRuns / executions.length };
+    })
+    .filter((test) => test.unstableRuns > 0)
+    .sort((a, b) => b.score - a.score || b.runs - a.runs);
+}
+
+/**
+ * Number of executions in a row, ending with its newest one, in which each test failed.
+ * Runs that skipped a test or did not include it (filtered with -g or --project) neither extend nor reset its streak.
+ * A test whose newest execution passed is not in the map.
+ */
+export function failureStreaks(runs: RunRecord[]): Map<string, number> {
+  const streaks = new Map<string, number>();
+  for (const run of runs) {
+    for (const test of run.tests.filter((test) => test.outcome !== "skipped")) {
+      if (hasFailed(test)) {
+        streaks.set(test.id, (streaks.get(test.id) ?? 0) + 1);
+      } else {
+        streaks.delete(test.id);
+      }
+    }
+  }
+  return streaks;
+}
+
+function testName(test: { title: string; project: string }): string {
+  return `[${test.project}] ${test.title}`;
+}
+
+function formatChange(change: number): string {
+  return `${change >= 0 ? "+" : ""}${change.toFixed(1)}`;
+}
+
+// Console report over `runs`: pass-rate trend, slowest tests and flakiness scores.
+// Partial runs are marked and left out of the change, which compares each full run with the full run before it.
+export function formatHistoryReport(runs: RunRecord[], maxTests: number): string {
+  const trend = passRateTrend(runs);
+  let previousFull: RunTrend | undefined;
+  const sections = [
+    formatTable(
+      "Pass rate per run:",
+      ["Run", "Tests", "Failed", "Flaky", "Pass rate", "Change"],
+      trend.map((run) => {
+        const change = run.partial || !previousFull ? "" : formatChange(run.passRate - previousFull.passRate);
+        previousFull = run.partial ? previousFull : run;
+        return [
+          run.startedAt.replace("T", " ").substring(0, 16) + (run.partial ? " (partial)" : ""),
+          String(run.total),
+          String(run.failed),
+          String(run.flaky),
+          `${run.passRate.toFixed(1)}%`,
+          change,
+        ];
+      })
+    ),
+    formatTable(
+      "Slowest tests:",
+      ["Test", "Runs", "Average", "Max"],
+      slowestTests(runs, maxTests).map((test) => [testName(test), String(test.runs), `${test.averageMs} ms`, `${test.maxMs} ms`])
+    ),
+  ];
+
+  const flaky = flakyTests(runs).slice(0, maxTests);
+  sections.push(flaky.length === 0
+    ? "Flakiness: no unstable tests"
+    : formatTable(
+      "Flakiness (unstable runs / runs):",
+      ["Test", "Runs", "Unstable", "Score"],
+      flaky.map((test) => [testName(test), String(test.runs), String(test.unstableRuns), `${Math.round(test.score * 100)}%`])
+    ));
+
+  return sections.join("\n\n");
+}
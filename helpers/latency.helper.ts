@@ -0,0 +1,76 @@
+import { CoverageHit } from "../api-client/ApiCoverage";
+import { defaultLatencyBudget, latencyBudgets } from "../app/budgets";
+import { apiOperations } from "../app/generated/conduit.endpoints";
+import { findApiOperation } from "../app/schemas/SchemaRegistry";
+import { formatTable } from "./table.helper";
+
+export interface EndpointLatency {
+  operationId: string;
+  method: string;
+  path: string;
+  count: number;
+  p50: number;
+  p95: number;
+  max: number;
+  budget: number;
+  breaches: number;
+}
+
+// Nearest-rank percentile of sorted values
+export function percentile(sorted: number[], percent: number): number {
+  const rank = Math.ceil((percent / 100) * sorted.length);
+  return sorted[Math.max(0, rank - 1)];
+}
+
+/**
+ * Groups hits by OpenAPI operation and compares their durations with app/budgets.ts.
+ * Retried attempts are left out, like in the budget check of the controllers: only the returned attempt counts.
+ * Operations without hits are left out, the order follows the specification.
+ */
+export function summarizeLatency(hits: CoverageHit[]): EndpointLatency[] {
+  const durations = new Map<string, number[]>();
+  for (const hit of hits) {
+    const operation = findApiOperation(hit.method, hit.url);
+    if (operation && hit.duration !== undefined && !hit.retried) {
+      const values = durations.get(operation.operationId);
+      if (values) {
+        values.push(hit.duration);
+      } else {
+        durations.set(operation.operationId, [hit.duration]);
+      }
+    }
+  }
+
+  return apiOperations
+    .filter((operation) => durations.has(operation.operationId))
+    .map((operation) => {
+      const values = durations.get(operation.operationId)!.sort((a, b) => a - b);
+      const budget = latencyBudgets[operation.operationId] ?? defaultLatencyBudget;
+      return {
+        operationId: operation.operationId,
+        method: operation.method,
+        path: operation.path,
+        count: values.length,
+        p50: percentile(values, 50),
+        p95: percentile(values, 95),
+        max: values[values.length - 1],
+        budget,
+        breaches: values.filter((value) => value > budget).length,
+      };
+    });
+}
+
+// Plain-text table for the console: endpoint, calls, p50, p95, max, budget, breaches
+export function formatLatencyTable(title: string, endpoints: EndpointLatency[]): string {
+  const header = ["Endpoint", "Calls", "p50", "p95", "Max", "Budget", "Breaches"];
+  const rows = endpoints.map((endpoint) => [
+    `${endpoint.method} ${endpoint.path}`,
+    String(endpoint.count),
+    `${endpoint.p50} ms`,
+    `${endpoint.p95} ms`,
+    `${endpoint.max} ms`,
+    `${endpoint.budget} ms`,
+    endpoint.breaches > 0 ? `${endpoint.breaches} !` : "0",
+  ]);
+  return formatTable(title, header, rows);
+}
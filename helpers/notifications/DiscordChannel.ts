@@ -0,0 +1,115 @@
+import { ChannelOptions, NotificationChannel, postJson } from "./NotificationChannel";
+import { countFailureChanges, formatDuration, formatEndpointLatency, getPassRate, getStatusEmoji, getStatusText, groupFailedTests, RunSummary } from "./RunSummary";
+
+export interface DiscordEmbed {
+  title: string;
+  description?: string;
+  color: number;
+  fields: Array<{
+    name: string;
+    value: string;
+    inline?: boolean;
+  }>;
+  footer?: {
+    text: string;
+  };
+  timestamp?: string;
+}
+
+export interface DiscordWebhookPayload {
+  content?: string;
+  embeds: DiscordEmbed[];
+}
+
+// Discord embed field value has 1024 character limit
+const FIELD_LIMIT = 1024;
+
+// Rich embed to a Discord webhook, DISCORD_WEBHOOK_URL; setup in helpers/DiscordReporter.md
+export class DiscordChannel implements NotificationChannel {
+  readonly name = "Discord";
+  private url: string;
+
+  constructor(private options: ChannelOptions) {
+    this.url = options.url || process.env.DISCORD_WEBHOOK_URL || "";
+  }
+
+  missingConfiguration(): string | undefined {
+    return this.url ? undefined : "DISCORD_WEBHOOK_URL";
+  }
+
+  async send(summary: RunSummary): Promise<void> {
+    await postJson(this.name, this.url, this.buildPayload(summary));
+  }
+
+  buildPayload(summary: RunSummary): DiscordWebhookPayload {
+    const { stats } = summary;
+    const changes = countFailureChanges(summary.failedTests);
+    const fields: DiscordEmbed["fields"] = [
+      { name: "📦 Project", value: summary.projects.join(", ") || "Playwright Tests", inline: true },
+      { name: "🌐 Environment", value: summary.baseUrl || "N/A", inline: true },
+      { name: "⏱️ Duration", value: formatDuration(summary.durationMs), inline: true },
+      {
+        name: "📊 Results",
+        value: [
+          `**Total:** ${stats.total}`,
+          `**Passed:** ${stats.passed} ✅`,
+          `**Failed:** ${stats.failed} ❌`,
+          `**Skipped:** ${stats.skipped} ⏭️`,
+          stats.flaky > 0 ? `**Flaky:** ${stats.flaky} 🔄` : null,
+          `**Pass Rate:** ${getPassRate(stats)}`,
+          changes ? `**New Failures:** ${changes.newlyFailing} 🆕\n**Already Failing:** ${changes.alreadyFailing}` : null,
+        ]
+          .filter(Boolean)
+          .join("\n"),
+        inline: false,
+      },
+    ];
+
+    if ((this.options.includeFailedTests ?? true) && summary.failedTests.length > 0) {
+      const { groups, remaining } = groupFailedTests(summary.failedTests, this.options.maxFailedTestsToShow ?? 5);
+      let value = groups.map(([file, titles]) => `📄 **${file}**\n${titles.map((title) => `• ${title}`).join("\n")}`).join("\n\n");
+      if (remaining > 0) {
+        value += `\n\n_... and ${remaining} more failed tests_`;
+      }
+      fields.push({ name: "❌ Failed Tests", value: truncate(value), inline: false });
+    }
+
+    const slowestEndpoints = summary.slowestEndpoints.slice(0, this.options.maxEndpointsToShow ?? 5);
+    if (slowestEndpoints.length > 0) {
+      fields.push({
+        name: "🐢 Latency p50 / p95 / max",
+        value: truncate(slowestEndpoints.map((endpoint) => `\`${endpoint.method} ${endpoint.path}\` ${formatEndpointLatency(endpoint)}`).join("\n")),
+        inline: false,
+      });
+    }
+
+    return {
+      embeds: [{
+        title: `${getStatusEmoji(summary.status)} Test Execution: ${getStatusText(summary.status)}`,
+        color: getEmbedColor(summary.status),
+        fields,
+        footer: { text: "Playwright Test Reporter" },
+        timestamp: new Date().toISOString(),
+      }],
+    };
+  }
+}
+
+function truncate(value: string): string {
+  return value.length > FIELD_LIMIT ? value.substring(0, FIELD_LIMIT - 4) + "..." : value;
+}
+
+function getEmbedColor(status: RunSummary["status"]): number {
+  switch (status) {
+    case "passed":
+      return 0x2ecc71; // Green
+    case "failed":
+      return 0xe74c3c; // Red
+    case "timedout":
+      return 0xf39c12; // Orange
+    case "interrupted":
+      return 0x9b59b6; // Purple
+    default:
+      return 0x95a5a6; // Gray
+  }
+}
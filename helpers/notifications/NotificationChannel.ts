@@ -0,0 +1,54 @@
+import { RunSummary } from "./RunSummary";
+
+export type ChannelType = "discord" | "telegram" | "slack" | "teams" | "webhook";
+
+// One entry of the `channels` option of NotificationReporter in playwright.config.ts
+export interface ChannelOptions {
+  type: ChannelType;
+  when?: "always" | "failure" | "success";   // default "always"; "failure" is any status other than passed
+  projects?: string[];                        // only tests of these projects and their dependencies, skipped when none of them ran and the run passed
+  includeFailedTests?: boolean;               // default true
+  maxFailedTestsToShow?: number;              // default 5
+  maxEndpointsToShow?: number;                // default 5, slowest endpoints by p95
+  url?: string;                               // webhook URL, by default from the channel's environment variable
+  botToken?: string;                          // Telegram only, default TELEGRAM_BOT_TOKEN
+  chatId?: string;                            // Telegram only, default TELEGRAM_CHAT_ID
+}
+
+export interface NotificationChannel {
+  readonly name: string;
+  // What is missing, e.g. "DISCORD_WEBHOOK_URL"; undefined when the channel can send
+  missingConfiguration(): string | undefined;
+  send(summary: RunSummary): Promise<void>;
+}
+
+/**
+ * POSTs `payload` as JSON and logs the outcome under `[<name> Notification]`; never throws,
+ * a notification problem must not change the result of the run.
+ */
+export async function postJson(name: string, url: string, payload: unknown): Promise<boolean> {
+  try {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(payload),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`[${name} Notification] Failed to send - Status: ${response.status}, Error: ${errorText}`);
+      return false;
+    }
+    console.log(`[${name} Notification] Sent successfully`);
+    return true;
+  } catch (error) {
+    console.error(`[${name} Notification] Error sending message - ${error}`);
+    return false;
+  } finally {
+    // Small delay to allow Windows async handles to close properly
+    // Fixes: "Assertion failed: !(handle->flags & UV_HANDLE_CLOSING)" error
+    await new Promise((resolve) => setTimeout(resolve, 200));
+  }
+}
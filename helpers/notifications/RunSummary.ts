@@ -0,0 +1,246 @@
+import type { FullConfig, FullResult, TestCase, TestResult } from "@playwright/test/reporter";
+import fs from "fs";
+import { failureStreaks, loadRunHistory, runsBefore } from "../history.helper";
+import { EndpointLatency } from "../latency.helper";
+
+export interface TestStats {
+  total: number;
+  passed: number;
+  failed: number;
+  skipped: number;
+  flaky: number;
+  duration: number;
+}
+
+export interface FailedTest {
+  id: string;
+  title: string;
+  file: string;
+  project: string;
+  error: string;
+  failingRuns?: number;                 // runs in a row this test failed, this one included; 1 is a new failure. Unset without history
+}
+
+// Everything a channel needs to build its message, gathered once per run
+export interface RunSummary {
+  status: FullResult["status"];
+  projects: string[];                   // projects with tests in this summary
+  baseUrl: string;
+  startedAt: string;
+  durationMs: number;
+  stats: TestStats;
+  failedTests: FailedTest[];
+  slowestEndpoints: EndpointLatency[];  // by p95, from the PerformanceReporter summary of this run
+}
+
+interface TestOutcome {
+  test: TestCase;
+  project: string;
+  result: TestResult;                   // last attempt
+}
+
+/**
+ * Collects test results for NotificationReporter. Each test is counted once with its final outcome,
+ * a test that passed on retry counts as passed and flaky.
+ */
+export class RunSummaryCollector {
+  private outcomes = new Map<string, TestOutcome>();
+  private baseUrl = "";
+  private dependencies = new Map<string, string[]>();
+
+  constructor(private performanceSummaryFile: string, private historyFile: string) {}
+
+  begin(config: FullConfig) {
+    this.baseUrl = config.projects[0]?.use?.baseURL || process.env.BASE_URL || "";
+    this.dependencies = new Map(config.projects.map((project) => [project.name, project.dependencies]));
+  }
+
+  add(test: TestCase, result: TestResult) {
+    this.outcomes.set(test.id, { test, project: test.parent.project()?.name ?? "", result });
+  }
+
+  // Summary of the tests of `projects` and the projects they depend on, or of all tests when no projects are given
+  summarize(result: FullResult, projects?: string[]): RunSummary {
+    const included = projects && this.withDependencies(projects);
+    const outcomes = [...this.outcomes.values()].filter(({ project }) => !included || included.has(project));
+    const stats: TestStats = { total: 0, passed: 0, failed: 0, skipped: 0, flaky: 0, duration: 0 };
+    const failedTests: FailedTest[] = [];
+    const previousRuns = runsBefore(loadRunHistory(this.historyFile), result.startTime);
+    const streaks = failureStreaks(previousRuns);
+
+    for (const { test, project, result: last } of outcomes) {
+      stats.total++;
+      stats.duration += last.duration;
+
+      switch (test.outcome()) {
+        case "expected":
+          if (last.status === "skipped") {
+            stats.skipped++;
+          } else {
+            stats.passed++;
+          }
+          break;
+        case "flaky":
+          stats.passed++;
+          stats.flaky++;
+          break;
+        case "skipped":
+          stats.skipped++;
+          break;
+        case "unexpected":
+          stats.failed++;
+          failedTests.push({
+            id: test.id,
+            title: test.title,
+            file: fileName(test.location.file),
+            project,
+            error: extractErrorMessage(last),
+            failingRuns: previousRuns.length > 0 ? (streaks.get(test.id) ?? 0) + 1 : undefined,
+          });
+          break;
+      }
+    }
+
+    // A filtered summary only fails for its own tests, errors outside of tests keep the overall status
+    const status = projects && result.status === "failed" && stats.failed === 0 && outcomes.length > 0 ? "passed" : result.status;
+
+    return {
+      status,
+      projects: [...new Set(outcomes.map(({ project }) => project))],
+      baseUrl: this.baseUrl,
+      startedAt: result.startTime.toISOString(),
+      durationMs: result.duration,
+      stats,
+      failedTests,
+      slowestEndpoints: this.loadSlowestEndpoints(result.startTime.getTime()),
+    };
+  }
+
+  // `projects` and, transitively, the projects they depend on; a failed setup project then fails its dependents' summary
+  private withDependencies(projects: string[]): Set<string> {
+    const included = new Set<string>();
+    const pending = [...projects];
+    while (pending.length > 0) {
+      const project = pending.pop()!;
+      if (!included.has(project)) {
+        included.add(project);
+        pending.push(...(this.dependencies.get(project) ?? []));
+      }
+    }
+    return included;
+  }
+
+  private loadSlowestEndpoints(startTime: number): EndpointLatency[] {
+    try {
+      const summary = JSON.parse(fs.readFileSync(this.performanceSummaryFile, "utf-8"));
+      if (Date.parse(summary.generatedAt) < startTime) {
+        return [];
+      }
+      return (summary.endpoints as EndpointLatency[]).sort((a, b) => b.p95 - a.p95);
+    } catch {
+      return [];
+    }
+  }
+}
+
+function fileName(file: string): string {
+  return file.split(/[\\/]/).pop() || file;
+}
+
+export function extractErrorMessage(result: TestResult, maxLength = 150): string {
+  if (result.errors.length === 0) return "Unknown error";
+
+  const message = result.errors[0].message || "";
+  if (message.length > maxLength) {
+    return message.substring(0, maxLength) + "...";
+  }
+  return message;
+}
+
+export function formatDuration(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(seconds / 60);
+  const hours = Math.floor(minutes / 60);
+
+  if (hours > 0) {
+    return `${hours}h ${minutes % 60}m ${seconds % 60}s`;
+  }
+  if (minutes > 0) {
+    return `${minutes}m ${seconds % 60}s`;
+  }
+  return `${seconds}s`;
+}
+
+// Escapes &, < and >, the only characters Slack mrkdwn and Telegram HTML need escaped
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+export function getStatusText(status: FullResult["status"]): string {
+  switch (status) {
+    case "passed":
+      return "PASSED";
+    case "failed":
+      return "FAILED";
+    case "timedout":
+      return "TIMED OUT";
+    case "interrupted":
+      return "INTERRUPTED";
+    default:
+      return "UNKNOWN";
+  }
+}
+
+export function getStatusEmoji(status: FullResult["status"]): string {
+  switch (status) {
+    case "passed":
+      return "✅";
+    case "failed":
+      return "❌";
+    case "timedout":
+      return "⏱️";
+    case "interrupted":
+      return "⚠️";
+    default:
+      return "❓";
+  }
+}
+
+export function getPassRate(stats: TestStats): string {
+  if (stats.total === 0) return "0%";
+  return `${((stats.passed / stats.total) * 100).toFixed(1)}%`;
+}
+
+// Newly failing tests and tests that already failed in the previous run; undefined when there is no history
+export function countFailureChanges(failedTests: FailedTest[]): { newlyFailing: number; alreadyFailing: number } | undefined {
+  if (failedTests.length === 0 || failedTests[0].failingRuns === undefined) {
+    return undefined;
+  }
+  const newlyFailing = failedTests.filter((test) => test.failingRuns === 1).length;
+  return { newlyFailing, alreadyFailing: failedTests.length - newlyFailing };
+}
+
+function failedTestLabel(test: FailedTest): string {
+  if (test.failingRuns === undefined) {
+    return test.title;
+  }
+  return test.failingRuns === 1 ? `🆕 ${test.title}` : `${test.title} (failing for ${test.failingRuns} runs)`;
+}
+
+// Failed test titles grouped by spec file, at most `max` titles in total; new failures first
+export function groupFailedTests(failedTests: FailedTest[], max: number): { groups: Array<[string, string[]]>; remaining: number } {
+  const groups = new Map<string, string[]>();
+  const ordered = [...failedTests].sort((a, b) => (a.failingRuns ?? 0) - (b.failingRuns ?? 0));
+  for (const test of ordered.slice(0, max)) {
+    groups.set(test.file, [...(groups.get(test.file) ?? []), failedTestLabel(test)]);
+  }
+  return { groups: [...groups], remaining: Math.max(0, failedTests.length - max) };
+}
+
+export function formatEndpointLatency(endpoint: EndpointLatency): string {
+  return `${endpoint.p50} / ${endpoint.p95} / ${endpoint.max} ms` +
+    (endpoint.breaches > 0 ? ` ⚠️ ${endpoint.breaches} over ${endpoint.budget} ms` : "");
+}
@@ -0,0 +1,72 @@
+import { ChannelOptions, NotificationChannel, postJson } from "./NotificationChannel";
+import { escapeHtml, formatDuration, formatEndpointLatency, getPassRate, getStatusEmoji, getStatusText, groupFailedTests, RunSummary } from "./RunSummary";
+
+type SlackBlock =
+  | { type: "header"; text: { type: "plain_text"; text: string } }
+  | { type: "section"; text?: { type: "mrkdwn"; text: string }; fields?: Array<{ type: "mrkdwn"; text: string }> };
+
+// Section text of a Block Kit message is limited to 3000 characters
+const SECTION_LIMIT = 3000;
+
+// Block Kit message to a Slack incoming webhook, SLACK_WEBHOOK_URL
+export class SlackChannel implements NotificationChannel {
+  readonly name = "Slack";
+  private url: string;
+
+  constructor(private options: ChannelOptions) {
+    this.url = options.url || process.env.SLACK_WEBHOOK_URL || "";
+  }
+
+  missingConfiguration(): string | undefined {
+    return this.url ? undefined : "SLACK_WEBHOOK_URL";
+  }
+
+  async send(summary: RunSummary): Promise<void> {
+    await postJson(this.name, this.url, this.buildPayload(summary));
+  }
+
+  buildPayload(summary: RunSummary): { text: string; blocks: SlackBlock[] } {
+    const { stats } = summary;
+    const title = `${getStatusEmoji(summary.status)} Test Execution: ${getStatusText(summary.status)}`;
+    const blocks: SlackBlock[] = [
+      { type: "header", text: { type: "plain_text", text: title } },
+      {
+        type: "section",
+        fields: [
+          { type: "mrkdwn", text: `*Project*\n${escapeHtml(summary.projects.join(", ") || "Playwright Tests")}` },
+          { type: "mrkdwn", text: `*Environment*\n${escapeHtml(summary.baseUrl || "N/A")}` },
+          { type: "mrkdwn", text: `*Duration*\n${formatDuration(summary.durationMs)}` },
+          { type: "mrkdwn", text: `*Pass Rate*\n${getPassRate(stats)}` },
+        ],
+      },
+      section(
+        `*Results:* ${stats.total} total, ${stats.passed} passed, ${stats.failed} failed, ${stats.skipped} skipped` +
+        (stats.flaky > 0 ? `, ${stats.flaky} flaky` : "")
+      ),
+    ];
+
+    if ((this.options.includeFailedTests ?? true) && summary.failedTests.length > 0) {
+      const { groups, remaining } = groupFailedTests(summary.failedTests, this.options.maxFailedTestsToShow ?? 5);
+      blocks.push(section(
+        "*Failed Tests*\n" +
+        groups.map(([file, titles]) => `:page_facing_up: *${escapeHtml(file)}*\n${titles.map((title) => `• ${escapeHtml(title)}`).join("\n")}`).join("\n") +
+        (remaining > 0 ? `\n_... and ${remaining} more failed tests_` : "")
+      ));
+    }
+
+    const slowestEndpoints = summary.slowestEndpoints.slice(0, this.options.maxEndpointsToShow ?? 5);
+    if (slowestEndpoints.length > 0) {
+      blocks.push(section(
+        "*Latency p50 / p95 / max*\n" +
+        slowestEndpoints.map((endpoint) => `\`${endpoint.method} ${endpoint.path}\` ${formatEndpointLatency(endpoint)}`).join("\n")
+      ));
+    }
+
+    // `text` is shown in notifications and by clients without Block Kit
+    return { text: title, blocks };
+  }
+}
+
+function section(text: string): SlackBlock {
+  return { type: "section", text: { type: "mrkdwn", text: text.length > SECTION_LIMIT ? text.substring(0, SECTION_LIMIT - 3) + "..." : text } };
+}
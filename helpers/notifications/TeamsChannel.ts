@@ -0,0 +1,79 @@
+import { ChannelOptions, NotificationChannel, postJson } from "./NotificationChannel";
+import { formatDuration, formatEndpointLatency, getPassRate, getStatusEmoji, getStatusText, groupFailedTests, RunSummary } from "./RunSummary";
+
+type AdaptiveElement =
+  | { type: "TextBlock"; text: string; wrap?: boolean; weight?: "Bolder"; size?: "Medium" | "Large"; color?: "Good" | "Attention" | "Warning"; separator?: boolean }
+  | { type: "FactSet"; facts: Array<{ title: string; value: string }> };
+
+// Adaptive Card to a Microsoft Teams incoming webhook or Workflows "post to a channel" URL, TEAMS_WEBHOOK_URL
+export class TeamsChannel implements NotificationChannel {
+  readonly name = "Teams";
+  private url: string;
+
+  constructor(private options: ChannelOptions) {
+    this.url = options.url || process.env.TEAMS_WEBHOOK_URL || "";
+  }
+
+  missingConfiguration(): string | undefined {
+    return this.url ? undefined : "TEAMS_WEBHOOK_URL";
+  }
+
+  async send(summary: RunSummary): Promise<void> {
+    await postJson(this.name, this.url, this.buildPayload(summary));
+  }
+
+  buildPayload(summary: RunSummary) {
+    const { stats } = summary;
+    const body: AdaptiveElement[] = [
+      {
+        type: "TextBlock",
+        text: `${getStatusEmoji(summary.status)} Test Execution: ${getStatusText(summary.status)}`,
+        weight: "Bolder",
+        size: "Large",
+        color: summary.status === "passed" ? "Good" : summary.status === "failed" ? "Attention" : "Warning",
+      },
+      {
+        type: "FactSet",
+        facts: [
+          { title: "Project", value: summary.projects.join(", ") || "Playwright Tests" },
+          { title: "Environment", value: summary.baseUrl || "N/A" },
+          { title: "Duration", value: formatDuration(summary.durationMs) },
+          { title: "Total", value: String(stats.total) },
+          { title: "Passed", value: String(stats.passed) },
+          { title: "Failed", value: String(stats.failed) },
+          { title: "Skipped", value: String(stats.skipped) },
+          ...(stats.flaky > 0 ? [{ title: "Flaky", value: String(stats.flaky) }] : []),
+          { title: "Pass Rate", value: getPassRate(stats) },
+        ],
+      },
+    ];
+
+    if ((this.options.includeFailedTests ?? true) && summary.failedTests.length > 0) {
+      const { groups, remaining } = groupFailedTests(summary.failedTests, this.options.maxFailedTestsToShow ?? 5);
+      body.push({ type: "TextBlock", text: "Failed Tests", weight: "Bolder", separator: true });
+      for (const [file, titles] of groups) {
+        body.push({ type: "TextBlock", text: `📄 **${file}**\n\n${titles.map((title) => `- ${title}`).join("\n")}`, wrap: true });
+      }
+      if (remaining > 0) {
+        body.push({ type: "TextBlock", text: `_... and ${remaining} more failed tests_`, wrap: true });
+      }
+    }
+
+    const slowestEndpoints = summary.slowestEndpoints.slice(0, this.options.maxEndpointsToShow ?? 5);
+    if (slowestEndpoints.length > 0) {
+      body.push({ type: "TextBlock", text: "Latency p50 / p95 / max", weight: "Bolder", separator: true });
+      body.push({
+        type: "FactSet",
+        facts: slowestEndpoints.map((endpoint) => ({ title: `${endpoint.method} ${endpoint.path}`, value: formatEndpointLatency(endpoint) })),
+      });
+    }
+
+    return {
+      type: "message",
+      attachments: [{
+        contentType: "application/vnd.microsoft.card.adaptive",
+        content: { $schema: "http://adaptivecards.io/schemas/adaptive-card.json", type: "AdaptiveCard", version: "1.4", body },
+      }],
+    };
+  }
+}
@@ -0,0 +1,80 @@
+import { ChannelOptions, NotificationChannel, postJson } from "./NotificationChannel";
+import { countFailureChanges, escapeHtml, formatDuration, formatEndpointLatency, getPassRate, getStatusText, groupFailedTests, RunSummary } from "./RunSummary";
+
+// HTML message from a bot, TELEGRAM_BOT_TOKEN and TELEGRAM_CHAT_ID; setup in helpers/TelegramReporter.md
+export class TelegramChannel implements NotificationChannel {
+  readonly name = "Telegram";
+  private botToken: string;
+  private chatId: string;
+
+  constructor(private options: ChannelOptions) {
+    this.botToken = options.botToken || process.env.TELEGRAM_BOT_TOKEN || "";
+    this.chatId = options.chatId || process.env.TELEGRAM_CHAT_ID || "";
+  }
+
+  missingConfiguration(): string | undefined {
+    return this.botToken && this.chatId ? undefined : "TELEGRAM_BOT_TOKEN or TELEGRAM_CHAT_ID";
+  }
+
+  async send(summary: RunSummary): Promise<void> {
+    await postJson(this.name, `https://api.telegram.org/bot${this.botToken}/sendMessage`, {
+      chat_id: this.chatId,
+      text: this.buildMessage(summary),
+      parse_mode: "HTML",
+      disable_web_page_preview: true,
+    });
+  }
+
+  buildMessage(summary: RunSummary): string {
+    const { stats } = summary;
+    const timestamp = new Date().toLocaleString("en-US", {
+      timeZone: "UTC",
+      dateStyle: "short",
+      timeStyle: "short",
+    });
+
+    let message = `<b>Test Execution: ${getStatusText(summary.status)}</b>\n\n`;
+    message += `<b>Project:</b> ${escapeHtml(summary.projects.join(", ") || "Playwright Tests")}\n`;
+    message += `<b>Environment:</b> ${escapeHtml(summary.baseUrl)}\n`;
+    message += `<b>Time:</b> ${escapeHtml(timestamp)} UTC\n`;
+    message += `<b>Duration:</b> ${formatDuration(summary.durationMs)}\n\n`;
+
+    message += `<b>Results:</b>\n`;
+    message += `Total: ${stats.total}\n`;
+    message += `Passed: ${stats.passed}\n`;
+    message += `Failed: ${stats.failed}\n`;
+    message += `Skipped: ${stats.skipped}\n`;
+    if (stats.flaky > 0) {
+      message += `Flaky: ${stats.flaky}\n`;
+    }
+    message += `Pass Rate: ${getPassRate(stats)}\n`;
+
+    const changes = countFailureChanges(summary.failedTests);
+    if (changes) {
+      message += `New Failures: ${changes.newlyFailing}\n`;
+      message += `Already Failing: ${changes.alreadyFailing}\n`;
+    }
+
+    const slowestEndpoints = summary.slowestEndpoints.slice(0, this.options.maxEndpointsToShow ?? 5);
+    if (slowestEndpoints.length > 0) {
+      message += `\n<b>Latency p50 / p95 / max:</b>\n`;
+      for (const endpoint of slowestEndpoints) {
+        message += `<code>${endpoint.method} ${escapeHtml(endpoint.path)}</code> ${formatEndpointLatency(endpoint)}\n`;
+      }
+    }
+
+    if ((this.options.includeFailedTests ?? true) && summary.failedTests.length > 0) {
+      const { groups, remaining } = groupFailedTests(summary.failedTests, this.options.maxFailedTestsToShow ?? 5);
+      message += `\n<b>Failed Tests:</b>\n`;
+      for (const [file, titles] of groups) {
+        message += `\n📄 <b>${escapeHtml(file)}</b>\n`;
+        message += titles.map((title) => `• ${escapeHtml(title)}\n`).join("");
+      }
+      if (remaining > 0) {
+        message += `\n<i>... and ${remaining} more failed tests</i>`;
+      }
+    }
+
+    return message;
+  }
+}
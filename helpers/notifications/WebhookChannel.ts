@@ -0,0 +1,24 @@
+import { ChannelOptions, NotificationChannel, postJson } from "./NotificationChannel";
+import { RunSummary } from "./RunSummary";
+
+// The RunSummary as JSON to any URL (NOTIFY_WEBHOOK_URL), for dashboards and custom integrations
+export class WebhookChannel implements NotificationChannel {
+  readonly name = "Webhook";
+  private url: string;
+
+  constructor(private options: ChannelOptions) {
+    this.url = options.url || process.env.NOTIFY_WEBHOOK_URL || "";
+  }
+
+  missingConfiguration(): string | undefined {
+    return this.url ? undefined : "NOTIFY_WEBHOOK_URL";
+  }
+
+  async send(summary: RunSummary): Promise<void> {
+    const { maxEndpointsToShow } = this.options;
+    await postJson(this.name, this.url, {
+      ...summary,
+      slowestEndpoints: maxEndpointsToShow === undefined ? summary.slowestEndpoints : summary.slowestEndpoints.slice(0, maxEndpointsToShow),
+    });
+  }
+}
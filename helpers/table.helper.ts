@@ -0,0 +1,7 @@
+// Plain-text table for the console: first column left-aligned, the others right-aligned
+export function formatTable(title: string, header: string[], rows: string[][]): string {
+  const widths = header.map((cell, column) => Math.max(cell.length, ...rows.map((row) => row[column].length)));
+  const format = (row: string[]) => row.map((cell, column) => column === 0 ? cell.padEnd(widths[column]) : cell.padStart(widths[column])).join("  ");
+
+  return [title, format(header), ...rows.map(format)].join("\n");
+}
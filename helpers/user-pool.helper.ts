@@ -0,0 +1,96 @@
+import { Faker } from "@faker-js/faker";
+import { APIRequest, APIRequestContext } from "@playwright/test";
+import { APIClient } from "../api-client/ApiClient";
+import { AuthUser, UserCredentials } from "../app/interfaces/user.interface";
+import { UserData } from "../test-data/UserData";
+import { debugPrint } from "./debug.helper";
+import { getAuthHeaders } from "./env.helper";
+
+export interface PoolUser {
+  credentials: UserCredentials;
+  user: AuthUser;
+  apiClient: APIClient;
+  request: APIRequestContext;
+}
+
+/**
+ * Registers `size` fresh users and returns an authorized APIClient for each of them.
+ * The clients share one request context, each one sends its own Authorization header.
+ * User data comes from `generator`, so provisioning does not move the seeded faker of the test that triggered it.
+ */
+export async function provisionUserPool(request: APIRequest, baseURL: string | undefined, size: number, generator: Faker): Promise<PoolUser[]> {
+  const poolRequest = await request.newContext({ baseURL });
+  const apiClientNoAuth = new APIClient(poolRequest);
+  const pool: PoolUser[] = [];
+
+  try {
+    for (let i = 0; i < size; i++) {
+      const userData = UserData.getRandomUserData(generator);
+      const response = await apiClientNoAuth.user.createUser(userData);
+      if (response.status !== 200) {
+        throw new Error(`Failed to provision pool user ${userData.user.username}: ${response.status} ${JSON.stringify(response.body)}`);
+      }
+
+      pool.push({
+        credentials: userData.user,
+        user: response.body.user,
+        apiClient: new APIClient(poolRequest, getAuthHeaders(response.body.user.token)),
+        request: poolRequest,
+      });
+      debugPrint("Provisioned pool user: " + userData.user.username);
+    }
+  } catch (error) {
+    // The provisioning error is the one to report, a failing cleanup is only logged
+    try {
+      await cleanUpPoolUsers(pool);
+    } catch (cleanupError) {
+      console.warn(`\x1b[33m[USER POOL]\x1b[0m ${cleanupError instanceof Error ? cleanupError.message : cleanupError}`);
+    } finally {
+      await poolRequest.dispose();
+    }
+    throw error;
+  }
+
+  return pool;
+}
+
+/**
+ * Removes what pool users left behind and closes their request contexts.
+ * Conduit has no endpoint to delete a user, so the accounts themselves stay registered.
+ */
+export async function releaseUserPool(pool: PoolUser[]) {
+  try {
+    await cleanUpPoolUsers(pool);
+  } finally {
+    for (const request of new Set(pool.map((poolUser) => poolUser.request))) {
+      await request.dispose();
+    }
+  }
+}
+
+// Unfollows the other pool users and deletes the articles of every pool user; a failing user does not stop the others
+async function cleanUpPoolUsers(pool: PoolUser[]) {
+  const failures: string[] = [];
+  for (const { apiClient, credentials } of pool) {
+    try {
+      for (const other of pool) {
+        if (other.credentials.username !== credentials.username) {
+          await apiClient.user.unFollowUser(other.credentials.username);
+        }
+      }
+
+      const articles = await apiClient.article.getAllArticles({ author: credentials.username });
+      for (const article of articles) {
+        await apiClient.article.deleteArticle(article.slug as string);
+      }
+
+      debugPrint("Released pool user: " + credentials.username);
+    } catch (error) {
+      failures.push(`${credentials.username}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  if (failures.length > 0) {
+    throw new Error(`Failed to release ${failures.length} pool user(s):\n${failures.join("\n")}`);
+  }
+}
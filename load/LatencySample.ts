@@ -0,0 +1,30 @@
+import { percentile } from "../helpers/latency.helper";
+
+/**
+ * Durations with a fixed memory bound, so a soak run does not grow without limit.
+ * `count` and `max` are exact, percentiles come from a uniform reservoir sample of at most `capacity` values.
+ */
+export class LatencySample {
+  count = 0;
+  max = 0;
+  private values: number[] = [];
+
+  constructor(private capacity = 10_000) {}
+
+  add(value: number) {
+    this.count++;
+    this.max = Math.max(this.max, value);
+    if (this.values.length < this.capacity) {
+      this.values.push(value);
+      return;
+    }
+    const index = Math.floor(Math.random() * this.count);
+    if (index < this.capacity) {
+      this.values[index] = value;
+    }
+  }
+
+  percentile(percent: number): number {
+    return this.values.length ? percentile([...this.values].sort((a, b) => a - b), percent) : 0;
+  }
+}
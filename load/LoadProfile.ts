@@ -0,0 +1,21 @@
+export interface LoadProfile {
+  scenario: string;           // name from load/scenarios.ts
+  concurrency: number;        // virtual users running the scenario in parallel
+  durationMs: number;         // how long virtual users start new iterations
+  rampUpMs: number;           // virtual users are started evenly over this time
+  iterations: number;         // per virtual user, 0 = as many as fit into durationMs
+  thinkTimeMs: number;        // pause between iterations of one virtual user
+  reportIntervalMs: number;   // progress line and timeline window
+  maxErrorRate: number;       // failed iterations / iterations above this fail the run
+}
+
+export const defaultLoadProfile: LoadProfile = {
+  scenario: "publish",
+  concurrency: 5,
+  durationMs: 30_000,
+  rampUpMs: 0,
+  iterations: 0,
+  thinkTimeMs: 0,
+  reportIntervalMs: 10_000,
+  maxErrorRate: 0.01,
+};
@@ -0,0 +1,220 @@
+import { request as playwrightRequest } from "@playwright/test";
+import { defaultLatencyBudget, latencyBudgets } from "../app/budgets";
+import { apiOperations } from "../app/generated/conduit.endpoints";
+import { findApiOperation } from "../app/schemas/SchemaRegistry";
+import { CoverageHit, setCoverageHitListener } from "../api-client/ApiCoverage";
+import { EndpointLatency, percentile } from "../helpers/latency.helper";
+import { LatencySample } from "./LatencySample";
+import { LoadProfile } from "./LoadProfile";
+import { LoadScenario } from "./scenarios";
+
+export interface LatencyPercentiles {
+  p50: number;
+  p95: number;
+  p99: number;
+  max: number;
+}
+
+export interface LoadWindow {
+  second: number;             // end of the window since the start of the run
+  iterations: number;
+  failures: number;
+  p95: number;
+}
+
+export interface EndpointLoad extends EndpointLatency {
+  errors: number;             // responses with status >= 400
+}
+
+export interface LoadSummary {
+  scenario: string;
+  baseURL: string;
+  profile: LoadProfile;
+  startedAt: string;
+  elapsedMs: number;
+  iterations: number;
+  failures: number;
+  errorRate: number;
+  throughput: number;         // iterations per second
+  requests: number;
+  requestRate: number;        // requests per second
+  iterationLatency: LatencyPercentiles;
+  endpoints: EndpointLoad[];
+  errors: { message: string; count: number }[];
+  timeline: LoadWindow[];
+  passed: boolean;
+}
+
+interface EndpointStats {
+  durations: LatencySample;   // retried attempts are left out, like in PerformanceReporter
+  errors: number;
+  breaches: number;
+}
+
+/**
+ * Runs a scenario from load/scenarios.ts with `profile.concurrency` virtual users.
+ *
+ * Every virtual user has its own request context and repeats the scenario until `durationMs` has passed
+ * (or `iterations` are done). Iterations are timed here, single requests are taken from the hits the
+ * controllers record (see api-client/ApiCoverage.ts). Hits are aggregated in memory as they arrive,
+ * nothing is written inside the timed loop, and the kept durations are capped by LatencySample.
+ */
+export class LoadRunner {
+  private durations = new LatencySample();
+  private requests = 0;
+  private endpoints = new Map<string, EndpointStats>();
+  private failures = 0;
+  private errors = new Map<string, number>();
+  private window = { iterations: 0, failures: 0, durations: [] as number[] };
+  private timeline: LoadWindow[] = [];
+  private activeUsers = 0;
+  private startedAt = 0;
+
+  private windowStartedAt = 0;
+
+  constructor(private profile: LoadProfile, private scenario: LoadScenario, private baseURL: string) {
+    if (profile.durationMs === 0 && profile.iterations === 0) {
+      throw new Error("LOAD_DURATION or LOAD_ITERATIONS must be greater than 0, otherwise the run never ends.");
+    }
+  }
+
+  async run(): Promise<LoadSummary> {
+    this.startedAt = Date.now();
+    this.windowStartedAt = this.startedAt;
+    const deadline = this.profile.durationMs > 0 ? this.startedAt + this.profile.durationMs : Infinity;
+    const timer = setInterval(() => this.closeWindow(), this.profile.reportIntervalMs);
+    setCoverageHitListener((hit) => this.recordHit(hit));
+
+    try {
+      await Promise.all(Array.from({ length: this.profile.concurrency }, (_, index) => this.virtualUser(index, deadline)));
+    } finally {
+      clearInterval(timer);
+      setCoverageHitListener(undefined);
+    }
+    if (this.window.iterations > 0) {
+      this.closeWindow();
+    }
+
+    const elapsedMs = Date.now() - this.startedAt;
+    const iterations = this.durations.count + this.failures;
+    const errorRate = iterations > 0 ? this.failures / iterations : 1;
+
+    return {
+      scenario: this.scenario.name,
+      baseURL: this.baseURL,
+      profile: this.profile,
+      startedAt: new Date(this.startedAt).toISOString(),
+      elapsedMs,
+      iterations,
+      failures: this.failures,
+      errorRate,
+      throughput: iterations / (elapsedMs / 1000),
+      requests: this.requests,
+      requestRate: this.requests / (elapsedMs / 1000),
+      iterationLatency: {
+        p50: this.durations.percentile(50),
+        p95: this.durations.percentile(95),
+        p99: this.durations.percentile(99),
+        max: this.durations.max,
+      },
+      endpoints: this.summarizeEndpoints(),
+      errors: [...this.errors].map(([message, count]) => ({ message, count })).sort((a, b) => b.count - a.count),
+      timeline: this.timeline,
+      passed: iterations > 0 && errorRate <= this.profile.maxErrorRate,
+    };
+  }
+
+  private recordHit(hit: CoverageHit) {
+    this.requests++;
+    const operation = findApiOperation(hit.method, hit.url);
+    if (!operation) {
+      return;
+    }
+    let stats = this.endpoints.get(operation.operationId);
+    if (!stats) {
+      stats = { durations: new LatencySample(), errors: 0, breaches: 0 };
+      this.endpoints.set(operation.operationId, stats);
+    }
+    if (hit.status >= 400) {
+      stats.errors++;
+    }
+    if (hit.duration !== undefined && !hit.retried) {
+      stats.durations.add(hit.duration);
+      if (hit.duration > (latencyBudgets[operation.operationId] ?? defaultLatencyBudget)) {
+        stats.breaches++;
+      }
+    }
+  }
+
+  // Same fields as summarizeLatency() in helpers/latency.helper.ts, in the order of the specification
+  private summarizeEndpoints(): EndpointLoad[] {
+    return apiOperations
+      .filter((operation) => (this.endpoints.get(operation.operationId)?.durations.count ?? 0) > 0)
+      .map((operation) => {
+        const { durations, errors, breaches } = this.endpoints.get(operation.operationId)!;
+        return {
+          operationId: operation.operationId,
+          method: operation.method,
+          path: operation.path,
+          count: durations.count,
+          p50: durations.percentile(50),
+          p95: durations.percentile(95),
+          max: durations.max,
+          budget: latencyBudgets[operation.operationId] ?? defaultLatencyBudget,
+          breaches,
+          errors,
+        };
+      });
+  }
+
+  private async virtualUser(index: number, deadline: number) {
+    await this.sleep((this.profile.rampUpMs * index) / this.profile.concurrency);
+    const request = await playwrightRequest.newContext({ baseURL: this.baseURL });
+    this.activeUsers++;
+
+    try {
+      for (let iteration = 0; Date.now() < deadline && (this.profile.iterations === 0 || iteration < this.profile.iterations); iteration++) {
+        const startedAt = Date.now();
+        try {
+          await this.scenario.run(request);
+          this.durations.add(Date.now() - startedAt);
+          this.window.durations.push(Date.now() - startedAt);
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          this.failures++;
+          this.window.failures++;
+          this.errors.set(message, (this.errors.get(message) ?? 0) + 1);
+        }
+        this.window.iterations++;
+        await this.sleep(this.profile.thinkTimeMs);
+      }
+    } finally {
+      this.activeUsers--;
+      await request.dispose();
+    }
+  }
+
+  // Prints a progress line per report interval, the windows show whether latency drifts during a soak run
+  private closeWindow() {
+    const sorted = this.window.durations.sort((a, b) => a - b);
+    const window: LoadWindow = {
+      second: Math.round((Date.now() - this.startedAt) / 1000),
+      iterations: this.window.iterations,
+      failures: this.window.failures,
+      p95: sorted.length ? percentile(sorted, 95) : 0,
+    };
+    const rate = window.iterations / Math.max(1, (Date.now() - this.windowStartedAt) / 1000);
+    this.timeline.push(window);
+    this.window = { iterations: 0, failures: 0, durations: [] };
+    this.windowStartedAt = Date.now();
+
+    console.log(
+      `[LOAD] ${window.second}s  users ${this.activeUsers}  iterations ${window.iterations} (${rate.toFixed(1)}/s)  ` +
+      `failures ${window.failures}  p95 ${window.p95} ms`
+    );
+  }
+
+  private sleep(ms: number) {
+    return ms > 0 ? new Promise((resolve) => setTimeout(resolve, ms)) : Promise.resolve();
+  }
+}
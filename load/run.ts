@@ -0,0 +1,77 @@
+import dotenv from "dotenv";
+import fs from "node:fs";
+import path from "node:path";
+import { getEnvironment, getLoadProfile } from "../helpers/env.helper";
+import { formatTable } from "../helpers/table.helper";
+import { LoadRunner, LoadSummary } from "./LoadRunner";
+import { getScenario } from "./scenarios";
+
+/**
+ * Runs a load or soak scenario against the TEST_ENV environment with the API controllers.
+ *
+ * Usage:
+ *   npm run conduit:load
+ *   LOAD_SCENARIO=browse LOAD_CONCURRENCY=20 LOAD_DURATION=3600 npm run conduit:load
+ *
+ * Writes load-results/summary.json and exits with 1 when the error rate is above LOAD_MAX_ERROR_RATE.
+ */
+dotenv.config({ path: path.resolve(__dirname, "../.env") });
+
+// A retried request or a latency warning per slow call would hide the numbers this run is about
+process.env.HTTP_RETRY_ATTEMPTS ??= "1";
+process.env.LATENCY_BUDGET ??= "off";
+
+const outputDir = path.resolve(__dirname, "../load-results");
+
+function formatSummary(summary: LoadSummary): string {
+  const overview = [
+    `Scenario ${summary.scenario} against ${summary.baseURL}: ${summary.profile.concurrency} users, ${(summary.elapsedMs / 1000).toFixed(1)} s`,
+    `Iterations: ${summary.iterations} (${summary.throughput.toFixed(2)}/s), failed ${summary.failures} (${(summary.errorRate * 100).toFixed(2)}%)`,
+    `Iteration latency: p50 ${summary.iterationLatency.p50} ms, p95 ${summary.iterationLatency.p95} ms, p99 ${summary.iterationLatency.p99} ms, max ${summary.iterationLatency.max} ms`,
+    `Requests: ${summary.requests} (${summary.requestRate.toFixed(2)}/s)`,
+  ];
+
+  const endpoints = formatTable(
+    "Endpoints:",
+    ["Endpoint", "Calls", "Errors", "p50", "p95", "Max", "Budget", "Breaches"],
+    summary.endpoints.map((endpoint) => [
+      `${endpoint.method} ${endpoint.path}`,
+      String(endpoint.count),
+      String(endpoint.errors),
+      `${endpoint.p50} ms`,
+      `${endpoint.p95} ms`,
+      `${endpoint.max} ms`,
+      `${endpoint.budget} ms`,
+      String(endpoint.breaches),
+    ])
+  );
+
+  const errors = summary.errors.length > 0
+    ? ["Errors:", ...summary.errors.slice(0, 10).map((error) => `  ${error.count} x ${error.message}`)]
+    : [];
+
+  return [...overview, "", endpoints, ...(errors.length ? ["", ...errors] : [])].join("\n");
+}
+
+async function main() {
+  const profile = getLoadProfile();
+  const scenario = getScenario(profile.scenario);
+  const { baseURL } = getEnvironment();
+
+  console.log(`[LOAD] ${scenario.name} (${scenario.description}) against ${baseURL}`);
+  const summary = await new LoadRunner(profile, scenario, baseURL).run();
+
+  fs.mkdirSync(outputDir, { recursive: true });
+  fs.writeFileSync(path.join(outputDir, "summary.json"), JSON.stringify(summary, null, 2));
+  console.log(`\n${formatSummary(summary)}`);
+
+  if (!summary.passed) {
+    console.error(`\n[LOAD] Error rate ${(summary.errorRate * 100).toFixed(2)}% is above ${(profile.maxErrorRate * 100).toFixed(2)}%`);
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error(`[LOAD] ${error instanceof Error ? error.message : error}`);
+  process.exit(1);
+});
@@ -0,0 +1,67 @@
+import { APIRequestContext } from "@playwright/test";
+import { APIClient } from "../api-client/ApiClient";
+import { ApiResult } from "../app/interfaces/api.interface";
+import { getAuthHeaders } from "../helpers/env.helper";
+import { ArticleData } from "../test-data/ArticleData";
+import { UserData } from "../test-data/UserData";
+
+export interface LoadScenario {
+  name: string;
+  description: string;
+  // One iteration of a virtual user, throws when a step fails
+  run(request: APIRequestContext): Promise<void>;
+}
+
+export class ScenarioStepError extends Error {
+  constructor(step: string, result: ApiResult<unknown>) {
+    super(`${step} returned ${result.status}`);
+    this.name = "ScenarioStepError";
+  }
+}
+
+// Load scenarios accept any 2xx, the functional specs check the exact statuses
+function ensureOk<T extends ApiResult<unknown>>(step: string, result: T): T {
+  if (!result.response.ok()) {
+    throw new ScenarioStepError(step, result);
+  }
+  return result;
+}
+
+export const scenarios: LoadScenario[] = [
+  {
+    name: "publish",
+    description: "sign up, create article, comment, favorite, delete article",
+    async run(request) {
+      const signUp = ensureOk("sign up", await new APIClient(request).user.createUser(UserData.getRandomUserData()));
+      const client = new APIClient(request, getAuthHeaders(signUp.body.user.token));
+
+      const slug = ensureOk("create article", await client.article.createArticle(ArticleData.getDefaultArticleData())).slug!;
+      ensureOk("comment", await client.comment.addArticleComment(slug, ArticleData.getRandomCommentForArticle()));
+      ensureOk("favorite", await client.article.addToFavorites(slug));
+      ensureOk("delete article", await client.article.deleteArticle(slug));
+    },
+  },
+  {
+    name: "browse",
+    description: "list articles, open the first one with its comments, list tags",
+    async run(request) {
+      const client = new APIClient(request);
+
+      const list = ensureOk("list articles", await client.article.getArticlesList({ limit: 10 }));
+      const slug = list.body.articles[0]?.slug;
+      if (slug) {
+        ensureOk("open article", await client.article.getArticle(slug));
+        ensureOk("list comments", await client.comment.getArticleComments(slug));
+      }
+      ensureOk("list tags", await client.tag.getExistingTags());
+    },
+  },
+];
+
+export function getScenario(name: string): LoadScenario {
+  const scenario = scenarios.find((candidate) => candidate.name === name);
+  if (!scenario) {
+    throw new Error(`Unknown LOAD_SCENARIO "${name}". Available scenarios: ${scenarios.map(({ name }) => name).join(", ")}.`);
+  }
+  return scenario;
+}
@@ -0,0 +1,644 @@
+import http, { IncomingMessage, ServerResponse } from "http";
+import crypto from "crypto";
+import { AddressInfo } from "net";
+import { ConduitStore, DEFAULT_USER_IMAGE, StoredArticle, StoredComment, StoredUser } from "./ConduitStore";
+import { signToken } from "./token";
+
+export interface ConduitServerOptions {
+  port?: number;
+  host?: string;
+  seed?: boolean;
+  tokenSecret?: string;
+  tokenTtlSeconds?: number;
+}
+
+type ErrorMap = Record<string, string>;
+
+interface RequestContext {
+  method: string;
+  params: Record<string, string>;
+  query: URLSearchParams;
+  body: unknown;
+  headers: IncomingMessage["headers"];
+}
+
+interface RouteResult {
+  status: number;
+  body?: unknown;
+}
+
+type RouteHandler = (ctx: RequestContext) => RouteResult;
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  keys: string[];
+  handler: RouteHandler;
+}
+
+class HttpError extends Error {
+  constructor(public status: number, public errors: ErrorMap) {
+    super(JSON.stringify(errors));
+  }
+}
+
+const USERNAME_PATTERN = /^[a-zA-Z0-9]+$/;
+const EMAIL_PATTERN = /^\S+@\S+\.\S+$/;
+
+/**
+ * Self-contained Conduit API implementation for offline runs.
+ *
+ * Mirrors the routes and response shapes of `openapi/conduit.openapi.json`
+ * and the `{ errors: {...} }` maps used in `UserData`. State is kept in
+ * memory by `ConduitStore`.
+ */
+export class ConduitServer {
+  readonly store = new ConduitStore();
+  private server: http.Server;
+  private routes: Route[] = [];
+  private port: number;
+  private host: string;
+  private tokenSecret: string;
+  private tokenTtlSeconds: number;
+
+  constructor(options: ConduitServerOptions = {}) {
+    this.port = options.port ?? 3100;
+    this.host = options.host ?? "127.0.0.1";
+    this.tokenSecret = options.tokenSecret ?? crypto.randomBytes(32).toString("hex");
+    this.tokenTtlSeconds = options.tokenTtlSeconds ?? 60 * 60 * 24;
+
+    if (options.seed ?? true) {
+      this.store.seed();
+    }
+
+    this.registerRoutes();
+    this.server = http.createServer((req, res) => this.handle(req, res));
+  }
+
+  get url(): string {
+    const address = this.server.address() as AddressInfo | null;
+    return `http://${this.host}:${address ? address.port : this.port}`;
+  }
+
+  async start(): Promise<string> {
+    await new Promise<void>((resolve, reject) => {
+      this.server.once("error", reject);
+      this.server.listen(this.port, this.host, () => resolve());
+    });
+    return this.url;
+  }
+
+  async stop(): Promise<void> {
+    await new Promise<void>((resolve, reject) =>
+      this.server.close((error) => (error ? reject(error) : resolve()))
+    );
+  }
+
+  // ---------------------------------------------------------------------------
+  // Routing
+  // ---------------------------------------------------------------------------
+
+  private registerRoutes(): void {
+    this.route("POST", "/api/users", (ctx) => this.register(ctx));
+    this.route("POST", "/api/users/login", (ctx) => this.login(ctx));
+    this.route("GET", "/api/user", (ctx) => this.getCurrentUser(ctx));
+    this.route("PUT", "/api/user", (ctx) => this.updateUser(ctx));
+
+    this.route("GET", "/api/profiles/:username", (ctx) => this.getProfile(ctx));
+    this.route("POST", "/api/profiles/:username/follow", (ctx) => this.follow(ctx, true));
+    this.route("DELETE", "/api/profiles/:username/follow", (ctx) => this.follow(ctx, false));
+
+    this.route("GET", "/api/articles", (ctx) => this.listArticles(ctx));
+    this.route("GET", "/api/articles/feed", (ctx) => this.feed(ctx));
+    this.route("POST", "/api/articles", (ctx) => this.createArticle(ctx));
+    this.route("GET", "/api/articles/:slug", (ctx) => this.getArticle(ctx));
+    this.route("PUT", "/api/articles/:slug", (ctx) => this.updateArticle(ctx));
+    this.route("DELETE", "/api/articles/:slug", (ctx) => this.deleteArticle(ctx));
+    this.route("POST", "/api/articles/:slug/favorite", (ctx) => this.favorite(ctx, true));
+    this.route("DELETE", "/api/articles/:slug/favorite", (ctx) => this.favorite(ctx, false));
+
+    this.route("GET", "/api/articles/:slug/comments", (ctx) => this.listComments(ctx));
+    this.route("POST", "/api/articles/:slug/comments", (ctx) => this.addComment(ctx));
+    this.route("DELETE", "/api/articles/:slug/comments/:id", (ctx) => this.deleteComment(ctx));
+
+    this.route("GET", "/api/tags", () => ({ status: 200, body: { tags: this.store.getTags() } }));
+  }
+
+  private route(method: string, path: string, handler: RouteHandler): void {
+    const keys: string[] = [];
+    const source = path.replace(/:(\w+)/g, (_, key: string) => {
+      keys.push(key);
+      return "([^/]+)";
+    });
+    // Trailing slashes are accepted because `endpoints` uses them (e.g. "/api/tags/")
+    this.routes.push({ method, pattern: new RegExp(`^${source}/?$`), keys, handler });
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url || "/", "http://localhost");
+    const method = (req.method || "GET").toUpperCase();
+    let result: RouteResult;
+
+    try {
+      const matches = this.routes
+        .map((route) => ({ route, match: url.pathname.match(route.pattern) }))
+        .filter((candidate) => candidate.match);
+
+      if (matches.length === 0) {
+        throw new HttpError(404, { route: "not found" });
+      }
+
+      const found = matches.find((candidate) => candidate.route.method === method);
+      if (!found || !found.match) {
+        throw new HttpError(405, { method: "is not allowed" });
+      }
+
+      const params: Record<string, string> = {};
+      found.route.keys.forEach((key, index) => {
+        params[key] = decodeURIComponent(found.match![index + 1]);
+      });
+
+      result = found.route.handler({
+        method,
+        params,
+        query: url.searchParams,
+        body: await this.readBody(req),
+        headers: req.headers,
+      });
+    } catch (error) {
+      if (error instanceof HttpError) {
+        result = { status: error.status, body: { errors: error.errors } };
+      } else {
+        console.error("[Conduit Server] Unhandled error", error);
+        result = { status: 500, body: { errors: { server: "internal error" } } };
+      }
+    }
+
+    if (result.body === undefined) {
+      res.writeHead(result.status);
+      res.end();
+      return;
+    }
+
+    const payload = JSON.stringify(result.body);
+    res.writeHead(result.status, {
+      "Content-Type": "application/json; charset=utf-8",
+      "Content-Length": Buffer.byteLength(payload),
+    });
+    res.end(payload);
+  }
+
+  private async readBody(req: IncomingMessage): Promise<unknown> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(chunk as Buffer);
+    }
+    const raw = Buffer.concat(chunks).toString("utf8");
+    if (!raw) {
+      return {};
+    }
+    try {
+      return JSON.parse(raw);
+    } catch {
+      throw new HttpError(400, { body: "is not valid JSON" });
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Auth
+  // ---------------------------------------------------------------------------
+
+  private issueToken(user: StoredUser): string {
+    const header = this.base64url({ alg: "HS256", typ: "JWT" });
+    const now = Math.floor(Date.now() / 1000);
+    const payload = this.base64url({ id: user.id, username: user.username, iat: now, exp: now + this.tokenTtlSeconds });
+    return `${header}.${payload}.${this.sign(`${header}.${payload}`)}`;
+  }
+
+  private authenticate(ctx: RequestContext, required: true): StoredUser;
+  private authenticate(ctx: RequestContext, required: false): StoredUser | undefined;
+  private authenticate(ctx: RequestContext, required: boolean): StoredUser | undefined {
+    const header = ctx.headers.authorization;
+    if (!header) {
+      if (required) throw new HttpError(401, { token: "is missing" });
+      return undefined;
+    }
+
+    const [scheme, token] = header.split(" ");
+    if (!token || !["Token", "Bearer"].includes(scheme)) {
+      throw new HttpError(401, { token: "is invalid" });
+    }
+
+    const [headerPart, payloadPart, signature] = token.split(".");
+    if (!headerPart || !payloadPart || signature !== this.sign(`${headerPart}.${payloadPart}`)) {
+      throw new HttpError(401, { token: "is invalid" });
+    }
+
+    const payload = JSON.parse(Buffer.from(payloadPart, "base64url").toString("utf8"));
+    if (typeof payload.exp !== "number" || payload.exp < Math.floor(Date.now() / 1000)) {
+      throw new HttpError(401, { token: "has expired" });
+    }
+
+    const user = this.store.getUserById(payload.id);
+    if (!user) {
+      throw new HttpError(401, { token: "is invalid" });
+    }
+    return user;
+  }
+
+  private sign(data: string): string {
+    return signToken(data, this.tokenSecret);
+  }
+
+  private base64url(value: object): string {
+    return Buffer.from(JSON.stringify(value)).toString("base64url");
+  }
+
+  // ---------------------------------------------------------------------------
+  // Users & profiles
+  // ---------------------------------------------------------------------------
+
+  private register(ctx: RequestContext): RouteResult {
+    const data = this.objectAt(ctx.body, "user");
+    const errors: ErrorMap = {};
+
+    const username = this.checkUsername(data.username, errors);
+    const email = this.checkEmail(data.email, errors);
+    const password = this.checkPassword(data.password, errors);
+
+    if (Object.keys(errors).length > 0) {
+      throw new HttpError(422, errors);
+    }
+
+    const user = this.store.createUser({ username: username!, email: email!, password: password! });
+    return { status: 200, body: { user: this.toUserJson(user) } };
+  }
+
+  private login(ctx: RequestContext): RouteResult {
+    const data = this.objectAt(ctx.body, "user");
+
+    if (this.isBlank(data.email)) {
+      throw new HttpError(422, { email: "can't be blank" });
+    }
+    if (this.isBlank(data.password)) {
+      throw new HttpError(422, { password: "can't be blank" });
+    }
+
+    const user = typeof data.email === "string" ? this.store.findUserByEmail(data.email) : undefined;
+    if (!user || user.password !== data.password) {
+      throw new HttpError(422, { "email or password": "is invalid" });
+    }
+
+    return { status: 200, body: { user: this.toUserJson(user) } };
+  }
+
+  private getCurrentUser(ctx: RequestContext): RouteResult {
+    const user = this.authenticate(ctx, true);
+    return { status: 200, body: { user: this.toUserJson(user) } };
+  }
+
+  private updateUser(ctx: RequestContext): RouteResult {
+    const user = this.authenticate(ctx, true);
+    const data = this.objectAt(ctx.body, "user");
+    const errors: ErrorMap = {};
+
+    const username = data.username !== undefined ? this.checkUsername(data.username, errors, user) : undefined;
+    const email = data.email !== undefined ? this.checkEmail(data.email, errors, user) : undefined;
+    const password = data.password !== undefined ? this.checkPassword(data.password, errors) : undefined;
+
+    for (const field of ["bio", "image"]) {
+      if (data[field] !== undefined && data[field] !== null && typeof data[field] !== "string") {
+        errors[field] = "is invalid";
+      }
+    }
+
+    if (Object.keys(errors).length > 0) {
+      throw new HttpError(422, errors);
+    }
+
+    if (username !== undefined) user.username = username;
+    if (email !== undefined) user.email = email;
+    if (password !== undefined) user.password = password;
+    if (data.bio !== undefined) user.bio = typeof data.bio === "string" ? data.bio : undefined;
+    if (data.image !== undefined) user.image = typeof data.image === "string" && data.image ? data.image : DEFAULT_USER_IMAGE;
+
+    return { status: 200, body: { user: this.toUserJson(user) } };
+  }
+
+  private getProfile(ctx: RequestContext): RouteResult {
+    const viewer = this.authenticate(ctx, false);
+    const profileUser = this.requireProfile(ctx.params.username);
+    return { status: 200, body: { profile: this.toProfileJson(profileUser, viewer) } };
+  }
+
+  private follow(ctx: RequestContext, follow: boolean): RouteResult {
+    const viewer = this.authenticate(ctx, true);
+    const profileUser = this.requireProfile(ctx.params.username);
+
+    if (follow) {
+      viewer.following.add(profileUser.id);
+    } else {
+      viewer.following.delete(profileUser.id);
+    }
+    return { status: 200, body: { profile: this.toProfileJson(profileUser, viewer) } };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Articles
+  // ---------------------------------------------------------------------------
+
+  private listArticles(ctx: RequestContext): RouteResult {
+    const viewer = this.authenticate(ctx, false);
+    const articles = this.store.findArticles({
+      tag: ctx.query.get("tag") ?? undefined,
+      author: ctx.query.get("author") ?? undefined,
+      favorited: ctx.query.get("favorited") ?? undefined,
+    });
+    return { status: 200, body: this.toArticlesPage(articles, ctx.query, viewer) };
+  }
+
+  private feed(ctx: RequestContext): RouteResult {
+    const viewer = this.authenticate(ctx, true);
+    const articles = this.store.findArticles({ followedBy: viewer });
+    return { status: 200, body: this.toArticlesPage(articles, ctx.query, viewer) };
+  }
+
+  private createArticle(ctx: RequestContext): RouteResult {
+    const author = this.authenticate(ctx, true);
+    const data = this.objectAt(ctx.body, "article");
+    const errors: ErrorMap = {};
+
+    if (this.isBlank(data.title)) {
+      errors.title = "can't be blank";
+    } else if (typeof data.title !== "string") {
+      errors.title = "is invalid";
+    }
+    for (const field of ["description", "body"]) {
+      if (data[field] !== undefined && typeof data[field] !== "string") {
+        errors[field] = "is invalid";
+      }
+    }
+    const tagList = this.checkTagList(data.tagList, errors);
+
+    if (Object.keys(errors).length > 0) {
+      throw new HttpError(422, errors);
+    }
+
+    const article = this.store.createArticle(author, {
+      title: String(data.title),
+      description: typeof data.description === "string" ? data.description : "",
+      body: typeof data.body === "string" ? data.body : "",
+      tagList,
+    });
+    return { status: 200, body: { article: this.toArticleJson(article, author) } };
+  }
+
+  private getArticle(ctx: RequestContext): RouteResult {
+    const viewer = this.authenticate(ctx, false);
+    const article = this.requireArticle(ctx.params.slug);
+    return { status: 200, body: { article: this.toArticleJson(article, viewer) } };
+  }
+
+  private updateArticle(ctx: RequestContext): RouteResult {
+    const viewer = this.authenticate(ctx, true);
+    const article = this.requireArticle(ctx.params.slug);
+    this.requireOwner(article.authorId, viewer, "article");
+
+    const data = this.objectAt(ctx.body, "article");
+    const errors: ErrorMap = {};
+
+    if (data.title !== undefined && (this.isBlank(data.title) || typeof data.title !== "string")) {
+      errors.title = this.isBlank(data.title) ? "can't be blank" : "is invalid";
+    }
+    for (const field of ["description", "body"]) {
+      if (data[field] !== undefined && typeof data[field] !== "string") {
+        errors[field] = "is invalid";
+      }
+    }
+    const tagList = data.tagList !== undefined ? this.checkTagList(data.tagList, errors) : undefined;
+
+    if (Object.keys(errors).length > 0) {
+      throw new HttpError(422, errors);
+    }
+
+    if (typeof data.title === "string") article.title = data.title;
+    if (typeof data.description === "string") article.description = data.description;
+    if (typeof data.body === "string") article.body = data.body;
+    if (tagList !== undefined) article.tagList = tagList;
+    article.updatedAt = new Date(Math.max(Date.now(), article.createdAt.getTime() + 1));
+
+    return { status: 200, body: { article: this.toArticleJson(article, viewer) } };
+  }
+
+  private deleteArticle(ctx: RequestContext): RouteResult {
+    const viewer = this.authenticate(ctx, true);
+    const article = this.requireArticle(ctx.params.slug);
+    this.requireOwner(article.authorId, viewer, "article");
+
+    this.store.deleteArticle(article.slug);
+    return { status: 204 };
+  }
+
+  private favorite(ctx: RequestContext, favorite: boolean): RouteResult {
+    const viewer = this.authenticate(ctx, true);
+    const article = this.requireArticle(ctx.params.slug);
+
+    if (favorite) {
+      viewer.favorites.add(article.slug);
+    } else {
+      viewer.favorites.delete(article.slug);
+    }
+    return { status: 200, body: { article: this.toArticleJson(article, viewer) } };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Comments
+  // ---------------------------------------------------------------------------
+
+  private listComments(ctx: RequestContext): RouteResult {
+    const viewer = this.authenticate(ctx, false);
+    const article = this.requireArticle(ctx.params.slug);
+    const comments = this.store.getComments(article.slug).map((comment) => this.toCommentJson(comment, viewer));
+    return { status: 200, body: { comments } };
+  }
+
+  private addComment(ctx: RequestContext): RouteResult {
+    const author = this.authenticate(ctx, true);
+    const article = this.requireArticle(ctx.params.slug);
+    const data = this.objectAt(ctx.body, "comment");
+
+    if (this.isBlank(data.body)) {
+      throw new HttpError(422, { body: "can't be blank" });
+    }
+    if (typeof data.body !== "string") {
+      throw new HttpError(422, { body: "is invalid" });
+    }
+
+    const comment = this.store.addComment(article, author, data.body);
+    return { status: 200, body: { comment: this.toCommentJson(comment, author) } };
+  }
+
+  private deleteComment(ctx: RequestContext): RouteResult {
+    const viewer = this.authenticate(ctx, true);
+    const article = this.requireArticle(ctx.params.slug);
+    const comment = this.store.getComment(ctx.params.id);
+
+    if (!comment || comment.articleSlug !== article.slug) {
+      throw new HttpError(404, { comment: "not found" });
+    }
+    this.requireOwner(comment.authorId, viewer, "comment");
+
+    this.store.deleteComment(comment.id);
+    return { status: 204 };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Validation helpers
+  // ---------------------------------------------------------------------------
+
+  private objectAt(body: unknown, key: string): Record<string, unknown> {
+    const value = body && typeof body === "object" ? (body as Record<string, unknown>)[key] : undefined;
+    return value && typeof value === "object" && !Array.isArray(value) ? value as Record<string, unknown> : {};
+  }
+
+  private isBlank(value: unknown): boolean {
+    return value === undefined || value === null || (typeof value === "string" && value.trim() === "");
+  }
+
+  private checkUsername(value: unknown, errors: ErrorMap, self?: StoredUser): string | undefined {
+    if (this.isBlank(value)) {
+      errors.username = "can't be blank";
+    } else if (typeof value !== "string" || !USERNAME_PATTERN.test(value)) {
+      errors.username = "is invalid";
+    } else {
+      const existing = this.store.findUserByUsername(value);
+      if (existing && existing !== self) {
+        errors.username = "is already taken.";
+      }
+      return value;
+    }
+    return undefined;
+  }
+
+  private checkEmail(value: unknown, errors: ErrorMap, self?: StoredUser): string | undefined {
+    if (this.isBlank(value)) {
+      errors.email = "can't be blank";
+    } else if (typeof value !== "string" || !EMAIL_PATTERN.test(value)) {
+      errors.email = "is invalid";
+    } else {
+      const existing = this.store.findUserByEmail(value);
+      if (existing && existing !== self) {
+        errors.email = "is already taken.";
+      }
+      return value;
+    }
+    return undefined;
+  }
+
+  private checkPassword(value: unknown, errors: ErrorMap): string | undefined {
+    if (this.isBlank(value)) {
+      errors.password = "can't be blank";
+    } else if (typeof value !== "string") {
+      errors.password = "is invalid";
+    } else {
+      return value;
+    }
+    return undefined;
+  }
+
+  private checkTagList(value: unknown, errors: ErrorMap): string[] {
+    if (value === undefined || value === null) {
+      return [];
+    }
+    if (!Array.isArray(value) || value.some((tag) => typeof tag !== "string")) {
+      errors.tagList = "is invalid";
+      return [];
+    }
+    return value;
+  }
+
+  private requireProfile(username: string): StoredUser {
+    const user = this.store.findUserByUsername(username);
+    if (!user) {
+      throw new HttpError(404, { profile: "not found" });
+    }
+    return user;
+  }
+
+  private requireArticle(slug: string): StoredArticle {
+    const article = this.store.getArticle(slug);
+    if (!article) {
+      throw new HttpError(404, { article: "not found" });
+    }
+    return article;
+  }
+
+  private requireOwner(ownerId: string, viewer: StoredUser, resource: string): void {
+    if (ownerId !== viewer.id) {
+      throw new HttpError(403, { [resource]: "is forbidden" });
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Serializers
+  // ---------------------------------------------------------------------------
+
+  private toUserJson(user: StoredUser) {
+    return {
+      email: user.email,
+      token: this.issueToken(user),
+      username: user.username,
+      bio: user.bio,
+      image: user.image,
+    };
+  }
+
+  private toProfileJson(user: StoredUser, viewer?: StoredUser) {
+    return {
+      username: user.username,
+      bio: user.bio || undefined,
+      image: user.image,
+      following: viewer ? viewer.following.has(user.id) : false,
+    };
+  }
+
+  private toArticleJson(article: StoredArticle, viewer?: StoredUser) {
+    const author = this.store.getUserById(article.authorId)!;
+    return {
+      slug: article.slug,
+      title: article.title,
+      description: article.description,
+      body: article.body,
+      createdAt: article.createdAt.toISOString(),
+      updatedAt: article.updatedAt.toISOString(),
+      tagList: article.tagList,
+      favorited: viewer ? viewer.favorites.has(article.slug) : false,
+      favoritesCount: this.store.countFavorites(article.slug),
+      author: this.toProfileJson(author, viewer),
+    };
+  }
+
+  private toArticlesPage(articles: StoredArticle[], query: URLSearchParams, viewer?: StoredUser) {
+    const limit = this.toNonNegativeInt(query.get("limit"), 20);
+    const offset = this.toNonNegativeInt(query.get("offset"), 0);
+    return {
+      articles: articles.slice(offset, offset + limit).map((article) => this.toArticleJson(article, viewer)),
+      articlesCount: articles.length,
+    };
+  }
+
+  private toCommentJson(comment: StoredComment, viewer?: StoredUser) {
+    const author = this.store.getUserById(comment.authorId)!;
+    return {
+      id: comment.id,
+      body: comment.body,
+      createdAt: comment.createdAt.toISOString(),
+      author: this.toProfileJson(author, viewer),
+    };
+  }
+
+  private toNonNegativeInt(value: string | null, fallback: number): number {
+    const parsed = value === null ? NaN : Number.parseInt(value, 10);
+    return Number.isNaN(parsed) || parsed < 0 ? fallback : parsed;
+  }
+}
@@ -0,0 +1,222 @@
+import crypto from "crypto";
+
+export const DEFAULT_USER_IMAGE = "https://static.productionready.io/images/smiley-cyrus.jpg";
+
+export interface StoredUser {
+  id: string;
+  email: string;
+  username: string;
+  password: string;
+  bio?: string;
+  image: string;
+  following: Set<string>;
+  favorites: Set<string>;
+}
+
+export interface StoredArticle {
+  slug: string;
+  title: string;
+  description: string;
+  body: string;
+  tagList: string[];
+  authorId: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface StoredComment {
+  id: string;
+  body: string;
+  articleSlug: string;
+  authorId: string;
+  createdAt: Date;
+}
+
+export interface ArticleFilter {
+  tag?: string;
+  author?: string;
+  favorited?: string;
+  followedBy?: StoredUser;
+}
+
+/**
+ * In-memory storage for the local Conduit stand-in server.
+ * Everything lives in plain maps and is lost when the process stops.
+ */
+export class ConduitStore {
+  private users = new Map<string, StoredUser>();
+  private articles = new Map<string, StoredArticle>();
+  private comments = new Map<string, StoredComment>();
+
+  // ---------------------------------------------------------------------------
+  // Users
+  // ---------------------------------------------------------------------------
+
+  createUser(data: { email: string; username: string; password: string }): StoredUser {
+    const user: StoredUser = {
+      id: crypto.randomUUID(),
+      email: data.email,
+      username: data.username,
+      password: data.password,
+      image: DEFAULT_USER_IMAGE,
+      following: new Set(),
+      favorites: new Set(),
+    };
+    this.users.set(user.id, user);
+    return user;
+  }
+
+  getUserById(id: string): StoredUser | undefined {
+    return this.users.get(id);
+  }
+
+  findUserByEmail(email: string): StoredUser | undefined {
+    const needle = email.toLowerCase();
+    return [...this.users.values()].find((user) => user.email.toLowerCase() === needle);
+  }
+
+  findUserByUsername(username: string): StoredUser | undefined {
+    const needle = username.toLowerCase();
+    return [...this.users.values()].find((user) => user.username.toLowerCase() === needle);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Articles
+  // ---------------------------------------------------------------------------
+
+  createArticle(author: StoredUser, data: { title: string; description: string; body: string; tagList: string[] }): StoredArticle {
+    const now = new Date();
+    const article: StoredArticle = {
+      slug: this.generateSlug(data.title),
+      title: data.title,
+      description: data.description,
+      body: data.body,
+      tagList: data.tagList,
+      authorId: author.id,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.articles.set(article.slug, article);
+    return article;
+  }
+
+  getArticle(slug: string): StoredArticle | undefined {
+    return this.articles.get(slug);
+  }
+
+  deleteArticle(slug: string): void {
+    this.articles.delete(slug);
+    for (const comment of this.comments.values()) {
+      if (comment.articleSlug === slug) {
+        this.comments.delete(comment.id);
+      }
+    }
+    for (const user of this.users.values()) {
+      user.favorites.delete(slug);
+    }
+  }
+
+  /**
+   * Returns matching articles, newest first.
+   */
+  findArticles(filter: ArticleFilter = {}): StoredArticle[] {
+    const author = filter.author !== undefined ? this.findUserByUsername(filter.author) : undefined;
+    const favoritedBy = filter.favorited !== undefined ? this.findUserByUsername(filter.favorited) : undefined;
+
+    if ((filter.author !== undefined && !author) || (filter.favorited !== undefined && !favoritedBy)) {
+      return [];
+    }
+
+    return [...this.articles.values()]
+      .filter((article) => filter.tag === undefined || article.tagList.includes(filter.tag))
+      .filter((article) => !author || article.authorId === author.id)
+      .filter((article) => !favoritedBy || favoritedBy.favorites.has(article.slug))
+      .filter((article) => !filter.followedBy || filter.followedBy.following.has(article.authorId))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  countFavorites(slug: string): number {
+    let count = 0;
+    for (const user of this.users.values()) {
+      if (user.favorites.has(slug)) count++;
+    }
+    return count;
+  }
+
+  getTags(): string[] {
+    const tags = new Set<string>();
+    for (const article of this.articles.values()) {
+      article.tagList.forEach((tag) => tags.add(tag));
+    }
+    return [...tags];
+  }
+
+  // ---------------------------------------------------------------------------
+  // Comments
+  // ---------------------------------------------------------------------------
+
+  addComment(article: StoredArticle, author: StoredUser, body: string): StoredComment {
+    const comment: StoredComment = {
+      id: crypto.randomBytes(12).toString("hex"),
+      body,
+      articleSlug: article.slug,
+      authorId: author.id,
+      createdAt: new Date(),
+    };
+    this.comments.set(comment.id, comment);
+    return comment;
+  }
+
+  getComment(id: string): StoredComment | undefined {
+    return this.comments.get(id);
+  }
+
+  getComments(slug: string): StoredComment[] {
+    return [...this.comments.values()]
+      .filter((comment) => comment.articleSlug === slug)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  deleteComment(id: string): void {
+    this.comments.delete(id);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Seed data
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Adds a couple of authors with articles so that tag lists and
+   * "other author" lookups have something to work with on a fresh server.
+   */
+  seed(): void {
+    const authors = [
+      { email: "jake@example.com", username: "jake", password: "jakejake" },
+      { email: "anna@example.com", username: "anna", password: "annaanna" },
+    ];
+
+    for (const data of authors) {
+      const author = this.createUser(data);
+      author.bio = `I am ${data.username}, a seeded Conduit author.`;
+      for (const tag of ["welcome", "introduction"]) {
+        this.createArticle(author, {
+          title: `How to get started with ${tag}`,
+          description: `Seeded article about ${tag}`,
+          body: `This article was created by the local Conduit server for the ${tag} tag.`,
+          tagList: [tag, "seed"],
+        });
+      }
+    }
+  }
+
+  private generateSlug(title: string): string {
+    const base = title
+      .toLowerCase()
+      .normalize("NFKD")
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "")
+      .substring(0, 100);
+    const suffix = crypto.randomBytes(3).toString("hex");
+    return base ? `${base}-${suffix}` : suffix;
+  }
+}
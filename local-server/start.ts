@@ -0,0 +1,30 @@
+import { ConduitServer } from "./ConduitServer";
+
+/**
+ * Starts the local Conduit stand-in server.
+ *
+ * Usage:
+ *   npm run conduit:server
+ *   LOCAL_SERVER_PORT=3200 npx tsx local-server/start.ts
+ *
+ * LOCAL_SERVER_TOKEN_SECRET signs the tokens; playwright.config.ts sets it for the run so tests can sign tokens too.
+ */
+const server = new ConduitServer({
+  port: Number(process.env.LOCAL_SERVER_PORT) || 3100,
+  seed: process.env.LOCAL_SERVER_SEED !== "false",
+  tokenSecret: process.env.LOCAL_SERVER_TOKEN_SECRET || undefined,
+});
+
+server
+  .start()
+  .then((url) => console.log(`[Conduit Server] Listening on ${url}`))
+  .catch((error) => {
+    console.error(`[Conduit Server] Failed to start - ${error}`);
+    process.exit(1);
+  });
+
+for (const signal of ["SIGINT", "SIGTERM"] as const) {
+  process.on(signal, () => {
+    server.stop().finally(() => process.exit(0));
+  });
+}
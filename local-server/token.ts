@@ -0,0 +1,6 @@
+import crypto from "crypto";
+
+// HS256 signature of "<header>.<payload>", as in the tokens the server issues; shared with helpers/auth.helper.ts
+export function signToken(data: string, secret: string): string {
+  return crypto.createHmac("sha256", secret).update(data).digest("base64url");
+}
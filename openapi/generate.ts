@@ -0,0 +1,258 @@
+import fs from "node:fs";
+import path from "node:path";
+
+/**
+ * Generates app/generated/ from openapi/conduit.openapi.json:
+ * - conduit.interfaces.ts: TypeScript interfaces for components.schemas
+ * - conduit.schemas.ts:    Joi schemas for the same components (ConduitSchemas)
+ * - conduit.endpoints.ts:  `endpoints` path templates and `apiOperations` (method, path, response schema per status)
+ *
+ * Usage: `npm run api:generate` writes the files, `npm run api:check` fails when they are out of date.
+ */
+
+interface SchemaObject {
+  $ref?: string;
+  type?: "object" | "array" | "string" | "integer" | "number" | "boolean";
+  format?: string;
+  properties?: Record<string, SchemaObject>;
+  required?: string[];
+  items?: SchemaObject;
+  additionalProperties?: SchemaObject;
+  oneOf?: SchemaObject[];
+  minLength?: number;
+  minimum?: number;
+  minProperties?: number;
+  nullable?: boolean;
+}
+
+interface ResponseObject {
+  $ref?: string;
+  content?: Record<string, { schema: SchemaObject }>;
+}
+
+interface OperationObject {
+  operationId: string;
+  responses: Record<string, ResponseObject>;
+}
+
+type PathItem = { "x-name": string } & Partial<Record<"get" | "post" | "put" | "delete", OperationObject>>;
+
+interface OpenApiDocument {
+  servers?: { url: string }[];
+  paths: Record<string, PathItem>;
+  components: {
+    schemas: Record<string, SchemaObject>;
+    responses?: Record<string, ResponseObject>;
+  };
+}
+
+const rootDir = path.resolve(__dirname, "..");
+const specFile = "openapi/conduit.openapi.json";
+const outputDir = "app/generated";
+const header = `// Generated by openapi/generate.ts from ${specFile}. Do not edit, run \`npm run api:generate\`.\n`;
+const methods = ["get", "post", "put", "delete"] as const;
+
+function refName(ref: string): string {
+  return ref.substring(ref.lastIndexOf("/") + 1);
+}
+
+function indent(level: number): string {
+  return "  ".repeat(level);
+}
+
+function generateInterfaces(document: OpenApiDocument): string {
+  const tsType = (schema: SchemaObject, level: number): string => {
+    let type: string;
+    if (schema.$ref) {
+      type = refName(schema.$ref);
+    } else if (schema.oneOf) {
+      type = schema.oneOf.map((option) => tsType(option, level)).join(" | ");
+    } else if (schema.type === "array") {
+      const itemType = tsType(schema.items ?? {}, level);
+      type = itemType.includes(" ") ? `(${itemType})[]` : `${itemType}[]`;
+    } else if (schema.type === "object") {
+      type = schema.properties
+        ? objectType(schema, level)
+        : `Record<string, ${schema.additionalProperties ? tsType(schema.additionalProperties, level) : "unknown"}>`;
+    } else if (schema.type === "integer" || schema.type === "number") {
+      type = "number";
+    } else {
+      type = schema.type ?? "unknown";
+    }
+    return schema.nullable ? `${type} | null` : type;
+  };
+
+  const objectType = (schema: SchemaObject, level: number): string => {
+    const lines = Object.entries(schema.properties ?? {}).map(([name, property]) => {
+      const optional = schema.required?.includes(name) ? "" : "?";
+      return `${indent(level + 1)}${name}${optional}: ${tsType(property, level + 1)};`;
+    });
+    return `{\n${lines.join("\n")}\n${indent(level)}}`;
+  };
+
+  const interfaces = Object.entries(document.components.schemas).map(([name, schema]) =>
+    `export interface ${name} ${objectType(schema, 0)}\n`
+  );
+  return header + "\n" + interfaces.join("\n");
+}
+
+function generateSchemas(document: OpenApiDocument): string {
+  const schemas = document.components.schemas;
+
+  const joi = (schema: SchemaObject, level: number): string => {
+    let expression: string;
+    if (schema.$ref) {
+      expression = `ConduitSchemas.${refName(schema.$ref)}`;
+    } else if (schema.oneOf) {
+      expression = `Joi.alternatives(${schema.oneOf.map((option) => joi(option, level)).join(", ")})`;
+    } else if (schema.type === "array") {
+      expression = `Joi.array().items(${joi(schema.items ?? {}, level)})`;
+    } else if (schema.type === "object") {
+      expression = schema.properties
+        ? `Joi.object(${objectKeys(schema, level)})`
+        : `Joi.object().pattern(Joi.string(), ${joi(schema.additionalProperties ?? {}, level)})`;
+      if (schema.minProperties !== undefined) {
+        expression += `.min(${schema.minProperties})`;
+      }
+    } else if (schema.type === "integer" || schema.type === "number") {
+      expression = schema.type === "integer" ? "Joi.number().integer()" : "Joi.number()";
+      if (schema.minimum !== undefined) {
+        expression += `.min(${schema.minimum})`;
+      }
+    } else if (schema.type === "boolean") {
+      expression = "Joi.boolean()";
+    } else if (schema.type === "string") {
+      expression = stringSchema(schema);
+    } else {
+      expression = "Joi.any()";
+    }
+    return schema.nullable ? `${expression}.allow(null)` : expression;
+  };
+
+  // Strings without minLength or format may be empty, as the API returns "" for unset text fields
+  const stringSchema = (schema: SchemaObject): string => {
+    switch (schema.format) {
+      case "email":
+        return "Joi.string().email({ tlds: { allow: false } })";
+      case "uri":
+        return "Joi.string().uri()";
+      case "date-time":
+        return "Joi.string().isoDate()";
+    }
+    if (schema.minLength === undefined || schema.minLength === 0) {
+      return `Joi.string().allow("")`;
+    }
+    return schema.minLength > 1 ? `Joi.string().min(${schema.minLength})` : "Joi.string()";
+  };
+
+  const objectKeys = (schema: SchemaObject, level: number): string => {
+    const lines = Object.entries(schema.properties ?? {}).map(([name, property]) => {
+      const required = schema.required?.includes(name) ? ".required()" : "";
+      return `${indent(level + 1)}${name}: ${joi(property, level + 1)}${required},`;
+    });
+    return `{\n${lines.join("\n")}\n${indent(level)}}`;
+  };
+
+  // Static fields are initialized top to bottom, so referenced schemas are emitted first
+  const ordered: string[] = [];
+  const visit = (name: string) => {
+    if (ordered.includes(name)) {
+      return;
+    }
+    JSON.stringify(schemas[name]).replace(/"#\/components\/schemas\/(\w+)"/g, (match, ref: string) => {
+      visit(ref);
+      return match;
+    });
+    ordered.push(name);
+  };
+  Object.keys(schemas).forEach(visit);
+
+  const fields = ordered.map((name) => `  static readonly ${name} = ${joi(schemas[name], 1)};\n`);
+  return header + `import Joi from "joi";\n\nexport class ConduitSchemas {\n${fields.join("\n")}}\n`;
+}
+
+function generateEndpoints(document: OpenApiDocument): string {
+  const basePath = (document.servers?.[0]?.url ?? "").replace(/\/+$/, "");
+
+  const responseSchema = (response: ResponseObject): string => {
+    const resolved = response.$ref ? document.components.responses?.[refName(response.$ref)] ?? {} : response;
+    const schema = resolved.content?.["application/json"]?.schema;
+    return schema?.$ref ? `ConduitSchemas.${refName(schema.$ref)}` : "null";
+  };
+
+  const endpointLines: string[] = [];
+  const operationLines: string[] = [];
+  for (const [pathTemplate, pathItem] of Object.entries(document.paths)) {
+    const name = pathItem["x-name"];
+    if (!name) {
+      throw new Error(`Path ${pathTemplate} has no "x-name"`);
+    }
+    endpointLines.push(`  ${name}: "${basePath}${pathTemplate}",`);
+
+    for (const method of methods) {
+      const operation = pathItem[method];
+      if (!operation) {
+        continue;
+      }
+      const responses = Object.entries(operation.responses)
+        .map(([status, response]) => `${status}: ${responseSchema(response)}`)
+        .join(", ");
+      operationLines.push(
+        `  { operationId: "${operation.operationId}", method: "${method.toUpperCase()}", path: endpoints.${name}, responses: { ${responses} } },`
+      );
+    }
+  }
+
+  return header + `import Joi from "joi";
+import { ConduitSchemas } from "./conduit.schemas";
+
+export const endpoints = {
+${endpointLines.join("\n")}
+};
+
+export interface ApiOperation {
+  operationId: string;
+  method: string;
+  path: string;                                   // template, e.g. "/api/articles/{slug}"
+  responses: Record<number, Joi.Schema | null>;   // documented statuses, null when the response has no body
+}
+
+// Same order as the paths in the document, so specific paths come before templated ones
+export const apiOperations: ApiOperation[] = [
+${operationLines.join("\n")}
+];
+`;
+}
+
+function main() {
+  const check = process.argv.includes("--check");
+  const document: OpenApiDocument = JSON.parse(fs.readFileSync(path.join(rootDir, specFile), "utf-8"));
+
+  const files: Record<string, string> = {
+    "conduit.interfaces.ts": generateInterfaces(document),
+    "conduit.schemas.ts": generateSchemas(document),
+    "conduit.endpoints.ts": generateEndpoints(document),
+  };
+
+  const outdated: string[] = [];
+  for (const [fileName, content] of Object.entries(files)) {
+    const filePath = path.join(rootDir, outputDir, fileName);
+    const current = fs.existsSync(filePath) ? fs.readFileSync(filePath, "utf-8") : undefined;
+    if (current === content) {
+      continue;
+    }
+    outdated.push(path.join(outputDir, fileName));
+    if (!check) {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, content);
+    }
+  }
+
+  if (check && outdated.length > 0) {
+    console.error(`Generated files are out of date with ${specFile}:\n  ${outdated.join("\n  ")}\nRun \`npm run api:generate\` and commit the result.`);
+    process.exit(1);
+  }
+  console.log(outdated.length > 0 ? `Updated:\n  ${outdated.join("\n  ")}` : `${outputDir} is up to date with ${specFile}`);
+}
+
+main();
@@ -1,9 +1,22 @@
 import { defineConfig, devices } from '@playwright/test';
 
+import crypto from 'crypto';
 import dotenv from 'dotenv';
 import path from 'path';
+import { getDataSeed, getEnvironment, getHttpReplayMode } from './helpers/env.helper';
 dotenv.config({ path: path.resolve(__dirname, '.env') });
 
+// One seed for the run, workers inherit it; each test derives its own from it (fixtures.ts `dataSeed`)
+process.env.DATA_SEED ||= String(getDataSeed());
+
+// TEST_ENV selects the profile from app/environments.ts (local / staging / demo)
+const environment = getEnvironment();
+
+// Token secret of the local server, shared with the workers so they can sign an expired token
+if (environment.localServer) {
+  process.env.LOCAL_SERVER_TOKEN_SECRET ||= crypto.randomBytes(32).toString('hex');
+}
+
 export default defineConfig({
   testDir: './tests',
   fullyParallel: true,
@@ -12,10 +25,17 @@ export default defineConfig({
   workers: process.env.CI ? 1 : 2,
 
   use: {
-    baseURL: "https://conduit-api.learnwebdriverio.com",
+    baseURL: environment.baseURL,
     trace: 'on-first-retry',
   },
 
+  // Replayed runs take responses from recordings/ and need no server
+  webServer: environment.localServer && getHttpReplayMode() !== "replay" ? {
+    command: 'npm run conduit:server',
+    url: environment.baseURL + '/api/tags',
+    reuseExistingServer: !process.env.CI,
+  } : undefined,
+
   projects: [
     {
       name: 'examples',
@@ -40,10 +60,25 @@ export default defineConfig({
     outputFolder: 'playwright-report',
     open: 'never' // 'always' / 'on-failure'
   }],
-  ['./helpers/DiscordReporter.ts', {
+  ['./helpers/CoverageReporter.ts', {
+    enabled: true,
+    outputDir: 'api-coverage'
+  }],
+  // before the notifications, they include its summary
+  ['./helpers/PerformanceReporter.ts', {
+    enabled: true,
+    outputFile: 'api-coverage/performance.json'
+  }],
+  ['./helpers/HistoryReporter.ts', {
+    enabled: true,
+    outputFile: 'test-history/history.json',
+    reportRuns: 10
+  }],
+  ['./helpers/NotificationReporter.ts', {
     enabled: true,
-    includeFailedTests: true,
-    maxFailedTestsToShow: 5
+    channels: [
+      { type: 'discord', includeFailedTests: true, maxFailedTestsToShow: 5 },
+    ]
   }],
   ]
 
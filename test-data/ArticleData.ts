@@ -5,7 +5,6 @@ export class ArticleData {
   static getDefaultArticleData() {
     return {
       article: {
-        author: {},
         title: faker.lorem.words({ min: 3, max: 5 }),
         description: faker.lorem.sentence(),
         body: faker.lorem.paragraphs({ min: 3, max: 4 }),
@@ -25,4 +24,98 @@ export class ArticleData {
   static getRandomCommentForArticle(){
     return { comment: { body: faker.lorem.sentence() } };
   }
-}
\ No newline at end of file
+
+  // Content the API must store and return unchanged; expectedTagList is the tag list as returned, in order and with duplicates
+  static getEdgeCaseArticles() {
+    const hundredTags = Array.from({ length: 100 }, (_, index) => `tag${index + 1}`);
+    return [
+      {
+        testId: 1,
+        testName: "emoji in every field",
+        articleData: { article: { title: "Release 🚀 notes 🎉", description: "👩‍💻 + 👨🏽‍🔧 = ❤️", body: "Flags 🇺🇦🇯🇵, skin tones 👍🏿, ZWJ 👨‍👩‍👧‍👦", tagList: ["🚀", "emoji"] } },
+        expectedTagList: ["🚀", "emoji"],
+      },
+      {
+        testId: 2,
+        testName: "right-to-left text",
+        articleData: { article: { title: "مرحبا بالعالم", description: "שלום עולם", body: "Mixed: hello مرحبا 123 שלום", tagList: ["عربي", "עברית"] } },
+        expectedTagList: ["عربي", "עברית"],
+      },
+      {
+        testId: 3,
+        testName: "HTML and script tags",
+        articleData: { article: { title: "<script>alert('title')</script>", description: "<img src=x onerror=alert(1)>", body: "<b>bold</b> &amp; <a href=\"javascript:alert(1)\">link</a>", tagList: ["<i>html</i>"] } },
+        expectedTagList: ["<i>html</i>"],
+      },
+      {
+        testId: 4,
+        testName: "SQL-like strings",
+        articleData: { article: { title: "Robert'); DROP TABLE articles;--", description: "' OR '1'='1", body: "1; SELECT * FROM users WHERE name = '' --", tagList: ["' OR 1=1 --"] } },
+        expectedTagList: ["' OR 1=1 --"],
+      },
+      {
+        testId: 5,
+        testName: "title of 255 characters",
+        articleData: { article: { title: "T".repeat(255), description: faker.lorem.sentence(), body: faker.lorem.paragraph(), tagList: ["long"] } },
+        expectedTagList: ["long"],
+      },
+      {
+        testId: 6,
+        testName: "empty description and body",
+        articleData: { article: { title: faker.lorem.words(3), description: "", body: "", tagList: [] } },
+        expectedTagList: [],
+      },
+      {
+        testId: 7,
+        testName: "duplicate tags",
+        articleData: { article: { title: faker.lorem.words(3), description: faker.lorem.sentence(), body: faker.lorem.paragraph(), tagList: ["dojo", "playwright", "dojo", "playwright"] } },
+        // The demo backend stores tagList as sent, duplicates included
+        expectedTagList: ["dojo", "playwright", "dojo", "playwright"],
+      },
+      {
+        testId: 8,
+        testName: "100 tags",
+        articleData: { article: { title: faker.lorem.words(3), description: faker.lorem.sentence(), body: faker.lorem.paragraph(), tagList: hundredTags } },
+        expectedTagList: hundredTags,
+      },
+      {
+        testId: 9,
+        testName: "title without letters or digits",
+        articleData: { article: { title: "?#/%&.. ../", description: faker.lorem.sentence(), body: faker.lorem.paragraph(), tagList: ["punctuation"] } },
+        expectedTagList: ["punctuation"],
+      },
+    ];
+  }
+
+  static getInvalidArticles() {
+    return [
+      { testId: 1, testName: "empty title", articleData: { article: { title: "", description: "d", body: "b" } }, message: { title: "can't be blank" } },
+      { testId: 2, testName: "whitespace title", articleData: { article: { title: " \t\n ", description: "d", body: "b" } }, message: { title: "can't be blank" } },
+      { testId: 3, testName: "missing title", articleData: { article: { description: "d", body: "b" } }, message: { title: "can't be blank" } },
+      { testId: 4, testName: "numeric title", articleData: { article: { title: 42, description: "d", body: "b" } }, message: { title: "is invalid" } },
+      { testId: 5, testName: "tag list as a string", articleData: { article: { title: faker.lorem.words(3), description: "d", body: "b", tagList: "dojo,playwright" } }, message: { tagList: "is invalid" } },
+      { testId: 6, testName: "tag of wrong type", articleData: { article: { title: faker.lorem.words(3), description: "d", body: "b", tagList: ["dojo", 7, null] } }, message: { tagList: "is invalid" } },
+    ];
+  }
+
+  // Comment bodies the API must store and return unchanged
+  static getEdgeCaseComments() {
+    return [
+      { testId: 1, testName: "emoji", commentData: { comment: { body: "Great post 👏🏼🔥 👨‍👩‍👧‍👦" } } },
+      { testId: 2, testName: "right-to-left text", commentData: { comment: { body: "تعليق رائع — תגובה מצוינת" } } },
+      { testId: 3, testName: "HTML and script tags", commentData: { comment: { body: "<script>document.cookie</script><iframe src=\"//evil\"></iframe>" } } },
+      { testId: 4, testName: "SQL-like string", commentData: { comment: { body: "'; DELETE FROM comments WHERE '1'='1" } } },
+      { testId: 5, testName: "10000 characters", commentData: { comment: { body: "c".repeat(10000) } } },
+      { testId: 6, testName: "line breaks and indentation", commentData: { comment: { body: "first line\n\n  indented line\r\n\ttabbed line " } } },
+    ];
+  }
+
+  static getInvalidComments() {
+    return [
+      { testId: 1, testName: "empty body", commentData: { comment: { body: "" } }, message: { body: "can't be blank" } },
+      { testId: 2, testName: "whitespace body", commentData: { comment: { body: " \n\t " } }, message: { body: "can't be blank" } },
+      { testId: 3, testName: "null body", commentData: { comment: { body: null } }, message: { body: "can't be blank" } },
+      { testId: 4, testName: "numeric body", commentData: { comment: { body: 42 } }, message: { body: "is invalid" } },
+    ];
+  }
+}
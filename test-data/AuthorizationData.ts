@@ -0,0 +1,69 @@
+import { APIClient } from "../api-client/ApiClient";
+import { ApiResult } from "../app/interfaces/api.interface";
+import { ArticleData } from "./ArticleData";
+
+export type Caller = "anonymous" | "owner" | "otherUser" | "malformedToken" | "tamperedToken" | "expiredToken" | "wrongScheme";
+
+export const callers: Caller[] = ["anonymous", "owner", "otherUser", "malformedToken", "tamperedToken", "expiredToken", "wrongScheme"];
+
+// Resources of the owner the call is made against
+export interface AuthorizationTarget {
+  username: string;
+  slug: string;
+  commentId: string;
+}
+
+export interface AuthorizationRule {
+  operationId: string;              // from openapi/conduit.openapi.json
+  consumesTarget?: boolean;         // the call removes the target, every caller gets a fresh one
+  call(client: APIClient, target: AuthorizationTarget): Promise<ApiResult<unknown>>;   // leave out `target` when it is not used, no target is created then
+  expected: Record<Caller, number>;
+}
+
+// A token that is present but not valid is rejected even where authorization is optional
+const INVALID_TOKEN = { malformedToken: 401, tamperedToken: 401, expiredToken: 401, wrongScheme: 401 };
+
+function publicEndpoint(status: number): Record<Caller, number> {
+  return { anonymous: status, owner: status, otherUser: status, ...INVALID_TOKEN };
+}
+
+function authRequired(status: number): Record<Caller, number> {
+  return { anonymous: 401, owner: status, otherUser: status, ...INVALID_TOKEN };
+}
+
+function ownerOnly(status: number): Record<Caller, number> {
+  return { anonymous: 401, owner: status, otherUser: 403, ...INVALID_TOKEN };
+}
+
+/**
+ * Expected status per endpoint and caller, executed by tests/authorization/authorization-matrix.spec.ts.
+ * Callers: no Authorization header, the owner of the target, another registered user,
+ * a token that is not a token, the owner's token with an altered signature, the owner's token with `exp` in the past,
+ * and the owner's token sent as `Basic`.
+ * The expired token has to be signed with the server's secret, so that caller only runs against the local server.
+ */
+export class AuthorizationData {
+
+  static getMatrix(): AuthorizationRule[] {
+    return [
+      { operationId: "GetCurrentUser", call: (client) => client.user.getCurrentUser(), expected: authRequired(200) },
+      { operationId: "UpdateCurrentUser", call: (client) => client.user.editUser({ user: { bio: "authorization matrix" } }), expected: authRequired(200) },
+      { operationId: "GetProfileByUsername", call: (client, target) => client.user.getUserProfile(target.username), expected: publicEndpoint(200) },
+      { operationId: "FollowUserByUsername", call: (client, target) => client.user.followUser(target.username), expected: authRequired(200) },
+      { operationId: "UnfollowUserByUsername", call: (client, target) => client.user.unFollowUser(target.username), expected: authRequired(200) },
+      { operationId: "GetArticlesFeed", call: (client) => client.article.getFeed({ limit: 1 }), expected: authRequired(200) },
+      { operationId: "GetArticles", call: (client) => client.article.getArticlesList({ limit: 1 }), expected: publicEndpoint(200) },
+      { operationId: "CreateArticle", call: (client) => client.article.createArticle(ArticleData.getDefaultArticleData()), expected: authRequired(200) },
+      { operationId: "GetArticle", call: (client, target) => client.article.getArticle(target.slug), expected: publicEndpoint(200) },
+      { operationId: "UpdateArticle", call: (client, target) => client.article.editArticle(ArticleData.getDataForUpdateArticle(), target.slug), expected: ownerOnly(200) },
+      { operationId: "DeleteArticle", consumesTarget: true, call: (client, target) => client.article.deleteArticle(target.slug), expected: ownerOnly(204) },
+      { operationId: "CreateArticleFavorite", call: (client, target) => client.article.addToFavorites(target.slug), expected: authRequired(200) },
+      { operationId: "DeleteArticleFavorite", call: (client, target) => client.article.removeFromFavorites(target.slug), expected: authRequired(200) },
+      { operationId: "GetArticleComments", call: (client, target) => client.comment.getArticleComments(target.slug), expected: publicEndpoint(200) },
+      { operationId: "CreateArticleComment", call: (client, target) => client.comment.addArticleComment(target.slug, ArticleData.getRandomCommentForArticle()), expected: authRequired(200) },
+      { operationId: "DeleteArticleComment", consumesTarget: true, call: (client, target) => client.comment.deleteArticleComment(target.slug, target.commentId), expected: ownerOnly(204) },
+      // The tags endpoint does not look at the Authorization header at all
+      { operationId: "GetTags", call: (client) => client.tag.getExistingTags(), expected: { anonymous: 200, owner: 200, otherUser: 200, malformedToken: 200, tamperedToken: 200, expiredToken: 200, wrongScheme: 200 } },
+    ];
+  }
+}
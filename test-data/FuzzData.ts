@@ -0,0 +1,114 @@
+import { Arbitrary, integer, oneOf, pick, Random, stringOf } from "../helpers/fuzz.helper";
+
+const LETTERS = "abcdefghijklmnopqrstuvwxyz";
+const DIGITS = "0123456789";
+
+// Strings servers tend to get wrong: whitespace, encodings, markup, injections, control characters
+const HOSTILE_STRINGS = [
+  "",
+  " ",
+  "\t\n",
+  "Ünïcødé",
+  "😀👍🏽👨‍👩‍👧",
+  "مرحبا بالعالم",
+  "e\u0301",
+  "𝕳𝖊𝖑𝖑𝖔",
+  "\u0000",
+  "\u202Eevil",
+  "<script>alert(1)</script>",
+  "' OR '1'='1",
+  "\"; DROP TABLE users; --",
+  "../../etc/passwd",
+  "%00",
+  "${jndi:ldap://x}",
+  "null",
+  "undefined",
+];
+
+// Values of the wrong type for a string field
+const WRONG_TYPES: unknown[] = [0, -1, 1.5, 1e308, true, false, null, [], ["a"], {}, { value: "a" }];
+
+/**
+ * Generators for fuzzing user payloads (see helpers/fuzz.helper.ts and tests/user/user-fuzz.spec.ts).
+ * Everything is built from the seeded random source, so FUZZ_SEED reproduces the inputs of a run.
+ */
+export class FuzzData {
+
+  static email(random: Random): string {
+    return `fuzz.${stringOf(random, LETTERS + DIGITS, 10)}@example.com`;
+  }
+
+  static username(random: Random): string {
+    return `fuzz${stringOf(random, LETTERS + DIGITS, 10)}`;
+  }
+
+  static password(random: Random): string {
+    return stringOf(random, LETTERS + DIGITS, integer(random, 8, 16));
+  }
+
+  // A plausible value from `valid`, a boundary or hostile string, a huge string, a wrong type or undefined (key is left out)
+  static fieldValue(valid: Arbitrary<string>): Arbitrary<unknown> {
+    return oneOf<unknown>(
+      valid,
+      valid,
+      (random) => pick(random, HOSTILE_STRINGS),
+      (random) => valid(random) + pick(random, HOSTILE_STRINGS),
+      (random) => pick(random, ["a", "😀", "ж"]).repeat(pick(random, [256, 1000, 10000])),
+      (random) => pick(random, WRONG_TYPES),
+      () => undefined,
+    );
+  }
+
+  // Body for UserController.createUser: mostly { user: {...} } with broken fields, sometimes a broken envelope
+  static registrationPayload(): Arbitrary<unknown> {
+    const user = FuzzData.userFields({
+      email: FuzzData.fieldValue(FuzzData.email),
+      password: FuzzData.fieldValue(FuzzData.password),
+      username: FuzzData.fieldValue(FuzzData.username),
+    });
+    return oneOf<unknown>(
+      (random) => ({ user: user(random) }),
+      (random) => ({ user: user(random) }),
+      (random) => ({ user: user(random) }),
+      (random) => ({ user: pick(random, WRONG_TYPES) }),
+      (random) => pick(random, [{}, { users: user(random) }, { user: user(random), extra: pick(random, HOSTILE_STRINGS) }]),
+    );
+  }
+
+  // Arguments of UserController.loginUser
+  static loginCredentials(): Arbitrary<{ email: unknown; password: unknown }> {
+    const email = FuzzData.fieldValue(FuzzData.email);
+    const password = FuzzData.fieldValue(FuzzData.password);
+    return (random) => ({ email: email(random), password: password(random) });
+  }
+
+  // Body for UserController.editUser, any subset of the editable fields
+  static updatePayload(): Arbitrary<unknown> {
+    const user = FuzzData.userFields({
+      email: FuzzData.fieldValue(FuzzData.email),
+      password: FuzzData.fieldValue(FuzzData.password),
+      username: FuzzData.fieldValue(FuzzData.username),
+      bio: FuzzData.fieldValue((random) => stringOf(random, LETTERS + " ", integer(random, 0, 80))),
+      image: FuzzData.fieldValue((random) => `https://example.com/${stringOf(random, LETTERS, 8)}.png`),
+    });
+    return oneOf<unknown>(
+      (random) => ({ user: user(random) }),
+      (random) => ({ user: user(random) }),
+      (random) => ({ user: pick(random, WRONG_TYPES) }),
+    );
+  }
+
+  // Object with the given fields, undefined values are left out like missing keys in JSON
+  private static userFields(fields: Record<string, Arbitrary<unknown>>): Arbitrary<Record<string, unknown>> {
+    return (random) => {
+      const user: Record<string, unknown> = {};
+      for (const [key, arbitrary] of Object.entries(fields)) {
+        const value = arbitrary(random);
+        if (value !== undefined) {
+          user[key] = value;
+        }
+      }
+      return user;
+    };
+  }
+}
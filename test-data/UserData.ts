@@ -1,4 +1,4 @@
-import { faker } from "@faker-js/faker";
+import { Faker, faker } from "@faker-js/faker";
 import { getEnvUserCredentials } from "../helpers/env.helper";
 import { generateRandomString } from "../helpers/data.helper";
 
@@ -196,6 +196,17 @@ export class UserData {
     ]
   }
 
+  // `generator` is a separately seeded Faker for data generated outside of a test (user pool)
+  static getRandomUserData(generator: Faker = faker) {
+    return {
+      user: {
+        email: generator.internet.email().toLowerCase(),
+        password: generator.internet.password(),
+        username: generator.person.firstName().replace(/[^a-zA-Z]/g, "").toLowerCase() + generateRandomString(6, generator).toLowerCase(),
+      },
+    };
+  }
+
   static getDataForUpdateUser() {
     return {
       user: {
@@ -0,0 +1,53 @@
+import { APIClient } from "../../api-client/ApiClient";
+import { NewArticle } from "../../app/generated/conduit.interfaces";
+import { Article } from "../../app/interfaces/article.interface";
+import { ArticleData } from "../ArticleData";
+import { RequestBuilder } from "./RequestBuilder";
+
+/**
+ * `new ArticleBuilder()` starts from ArticleData.getDefaultArticleData, `ArticleBuilder.forUpdate()` from an empty edit.
+ *
+ *   const { slug } = await new ArticleBuilder().withTags("builder").withoutField("body").create(apiClientAuth);
+ *   await ArticleBuilder.forUpdate().withTitle("New title").update(apiClientAuth, slug!);
+ */
+export class ArticleBuilder extends RequestBuilder<NewArticle> {
+
+  constructor(defaults: Partial<NewArticle> = ArticleData.getDefaultArticleData().article) {
+    super(defaults);
+  }
+
+  static forUpdate(): ArticleBuilder {
+    return new ArticleBuilder({});
+  }
+
+  withTitle(title: string): this {
+    return this.withField("title", title);
+  }
+
+  withDescription(description: string): this {
+    return this.withField("description", description);
+  }
+
+  withBody(body: string): this {
+    return this.withField("body", body);
+  }
+
+  // Replaces the tag list, call without arguments for an article without tags
+  withTags(...tags: string[]): this {
+    return this.withField("tagList", tags);
+  }
+
+  build(): Article {
+    return { article: this.snapshot() };
+  }
+
+  // POST /api/articles, the result has `slug`, `author` and `tag` like ArticleController.createArticle
+  async create(apiClient: APIClient) {
+    return apiClient.article.createArticle(this.build());
+  }
+
+  // PUT /api/articles/{slug}
+  async update(apiClient: APIClient, slug: string) {
+    return apiClient.article.editArticle(this.build(), slug);
+  }
+}
@@ -0,0 +1,30 @@
+import { APIClient } from "../../api-client/ApiClient";
+import { NewComment } from "../../app/generated/conduit.interfaces";
+import { Comment } from "../../app/interfaces/article.interface";
+import { ArticleData } from "../ArticleData";
+import { RequestBuilder } from "./RequestBuilder";
+
+/**
+ * Starts from ArticleData.getRandomCommentForArticle.
+ *
+ *   const { commentId } = await new CommentBuilder().withBody("First!").create(apiClientAuth, slug);
+ */
+export class CommentBuilder extends RequestBuilder<NewComment> {
+
+  constructor(defaults: Partial<NewComment> = ArticleData.getRandomCommentForArticle().comment) {
+    super(defaults);
+  }
+
+  withBody(body: string): this {
+    return this.withField("body", body);
+  }
+
+  build(): Comment {
+    return { comment: this.snapshot() };
+  }
+
+  // POST /api/articles/{slug}/comments, the result has `commentId`
+  async create(apiClient: APIClient, slug: string) {
+    return apiClient.comment.addArticleComment(slug, this.build());
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * Base of the fluent request builders: holds the fields of the request envelope (`{ user }`, `{ article }`, `{ comment }`).
+ * `withField` and `withoutField` only take known fields; negative specs send wrong types or unknown keys with `withRawField`.
+ */
+export abstract class RequestBuilder<TFields extends object> {
+  protected fields: Record<string, unknown>;
+
+  protected constructor(defaults: Partial<TFields>) {
+    this.fields = { ...defaults };
+  }
+
+  withField<K extends keyof TFields>(name: K, value: TFields[K]): this {
+    this.fields[name as string] = value;
+    return this;
+  }
+
+  // Sets any key to any value, for negative specs
+  withRawField(name: string, value: unknown): this {
+    this.fields[name] = value;
+    return this;
+  }
+
+  withoutField(name: keyof TFields): this {
+    delete this.fields[name as string];
+    return this;
+  }
+
+  // Copy of the current fields, later overrides do not change it
+  protected snapshot(): TFields {
+    return { ...this.fields } as TFields;
+  }
+}
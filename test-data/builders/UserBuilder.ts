@@ -0,0 +1,57 @@
+import { APIClient } from "../../api-client/ApiClient";
+import { UpdateUser } from "../../app/generated/conduit.interfaces";
+import { User } from "../../app/interfaces/user.interface";
+import { UserData } from "../UserData";
+import { RequestBuilder } from "./RequestBuilder";
+
+/**
+ * `new UserBuilder()` starts from a random valid registration (UserData.getRandomUserData),
+ * `UserBuilder.forUpdate()` from an empty edit.
+ *
+ *   const { body } = await new UserBuilder().withUsername("alice").create(apiClientNoAuth);
+ *   await UserBuilder.forUpdate().withBio("QA").update(apiClient);
+ */
+export class UserBuilder extends RequestBuilder<UpdateUser> {
+
+  constructor(defaults: UpdateUser = UserData.getRandomUserData().user) {
+    super(defaults);
+  }
+
+  static forUpdate(): UserBuilder {
+    return new UserBuilder({});
+  }
+
+  withEmail(email: string): this {
+    return this.withField("email", email);
+  }
+
+  withUsername(username: string): this {
+    return this.withField("username", username);
+  }
+
+  withPassword(password: string): this {
+    return this.withField("password", password);
+  }
+
+  withBio(bio: string): this {
+    return this.withField("bio", bio);
+  }
+
+  withImage(image: string): this {
+    return this.withField("image", image);
+  }
+
+  build(): User {
+    return { user: this.snapshot() };
+  }
+
+  // POST /api/users
+  async create(apiClient: APIClient) {
+    return apiClient.user.createUser(this.build());
+  }
+
+  // PUT /api/user as the user of `apiClient`
+  async update(apiClient: APIClient) {
+    return apiClient.user.editUser(this.build());
+  }
+}
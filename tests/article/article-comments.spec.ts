@@ -2,44 +2,40 @@ import { expect, test } from "../../fixtures/fixtures";
 import { ArticleSchemas } from "../../app/schemas/ArticleSchemas";
 import { debugPrint } from "../../helpers/debug.helper";
 import { ArticleData } from "../../test-data/ArticleData";
-import { clearUserArticles } from "../../helpers/cleanup.helper";
+import { ApiResult } from "../../app/interfaces/api.interface";
+import { SingleArticleResponse } from "../../app/interfaces/article.interface";
 
-let articleCreateResponse: any;
-let articleCreateResponseJson: any;
+let articleCreateResponse: ApiResult<SingleArticleResponse>;
+let articleCreateResponseJson: SingleArticleResponse;
 let articleSlug: string;
 
 test.describe("Article comments tests", () => {
 
   test.beforeEach(async ({ apiClientAuth }) => {
     const createArticleObject = await apiClientAuth.article.createArticle(ArticleData.getDefaultArticleData());
-    articleCreateResponse = createArticleObject.response;
-    articleCreateResponseJson = await createArticleObject.response.json();
-    articleSlug = createArticleObject.slug;
+    expect(createArticleObject).toHaveStatus(200);
+    articleCreateResponse = createArticleObject;
+    articleCreateResponseJson = createArticleObject.body;
+    articleSlug = createArticleObject.slug!;
     debugPrint("Created article with title: " + JSON.stringify(articleCreateResponseJson.article.title));
   });
 
-  test.afterAll(async ({ apiClientAuth }) => {
-    await clearUserArticles(apiClientAuth);
-  });
-
   test("TC-2011 add comment to article",
     { tag: ["@article", "@comment", "@schema"] },
     async ({ apiClientAuth }) => {
       const createCommentResponse = await apiClientAuth.comment.addArticleComment(articleSlug, ArticleData.getRandomCommentForArticle());
-      expect(createCommentResponse.response.status()).toBe(200);
+      expect(createCommentResponse).toHaveStatus(200);
 
-      const createdComment = await createCommentResponse.response.json();
+      const createdComment = createCommentResponse.body;
       expect(createdComment.comment.id).toBeDefined();
 
-      const createCommentValidation = ArticleSchemas.CommentResponse.validate(createdComment);
-      expect(createCommentValidation.error).toBeUndefined();
+      expect(createdComment).toMatchSchema(ArticleSchemas.CommentResponse);
 
       const articleComments = await apiClientAuth.comment.getArticleComments(articleSlug);
-      const articleCommentsJson = await articleComments.json();
+      const articleCommentsJson = articleComments.body;
       expect(articleCommentsJson.comments).toContainEqual(createdComment.comment);
       
-      const commentsListValidation = ArticleSchemas.CommentsResponse.validate(articleCommentsJson);
-      expect(commentsListValidation.error).toBeUndefined();
+      expect(articleCommentsJson).toMatchSchema(ArticleSchemas.CommentsResponse);
     }
   );
 
@@ -47,14 +43,14 @@ test.describe("Article comments tests", () => {
     { tag: ["@article", "@comment"] },
     async ({ apiClientAuth }) => {
       const createCommentResponse = await apiClientAuth.comment.addArticleComment(articleSlug, ArticleData.getRandomCommentForArticle());
-      expect(createCommentResponse.response.status()).toBe(200);
+      expect(createCommentResponse).toHaveStatus(200);
       
-      const createdComment = await createCommentResponse.response.json();
-      const deleteCommentResponse = await apiClientAuth.comment.deleteArticleComment(articleSlug, createdComment.comment.id);
-      expect(deleteCommentResponse.status()).toBe(204);
+      const createdComment = createCommentResponse.body;
+      const deleteCommentResponse = await apiClientAuth.comment.deleteArticleComment(articleSlug, createCommentResponse.commentId!);
+      expect(deleteCommentResponse).toHaveStatus(204);
       
       const articleComments = await apiClientAuth.comment.getArticleComments(articleSlug);
-      const receivedArticleComments = await articleComments.json();
+      const receivedArticleComments = articleComments.body;
       expect(receivedArticleComments.comments).not.toContainEqual(createdComment.comment);
     }
   );
@@ -0,0 +1,102 @@
+import { expect, test } from "../../fixtures/fixtures";
+import { Article, Comment } from "../../app/interfaces/article.interface";
+import { ArticleSchemas } from "../../app/schemas/ArticleSchemas";
+import { caseById } from "../../helpers/data.helper";
+import { debugPrint } from "../../helpers/debug.helper";
+import { ArticleData } from "../../test-data/ArticleData";
+
+// RFC 3986 unreserved characters: the slug can be put into a URL path without encoding
+const URL_SAFE_SLUG = /^[A-Za-z0-9\-._~]+$/;
+
+let articleSlug: string;
+
+test.describe("Article content", () => {
+
+  for (const { testId, testName } of ArticleData.getEdgeCaseArticles()) {
+    test(`TC-207${testId} article with ${testName} is returned unchanged`,
+      { tag: ["@article", "@content"] },
+      async ({ apiClientAuth }) => {
+        const { articleData, expectedTagList } = caseById(ArticleData.getEdgeCaseArticles(), testId);
+        const createResponse = await apiClientAuth.article.createArticle(articleData);
+        expect(createResponse).toHaveStatus(200);
+        expect(createResponse).toMatchSchema(ArticleSchemas.ArticleResponse);
+
+        const slug = createResponse.slug!;
+        debugPrint(`Slug for "${articleData.article.title.substring(0, 50)}": ${slug}`);
+        expect(slug).toMatch(URL_SAFE_SLUG);
+        expect([".", ".."]).not.toContain(slug);
+
+        // Read back through the slug URL, so a slug that needs encoding would not find the article
+        const getResponse = await apiClientAuth.article.getArticle(slug);
+        expect(getResponse).toHaveStatus(200);
+
+        for (const article of [createResponse.body.article, getResponse.body.article]) {
+          expect(article.slug).toEqual(slug);
+          expect(article.title).toEqual(articleData.article.title);
+          expect(article.description).toEqual(articleData.article.description);
+          expect(article.body).toEqual(articleData.article.body);
+          expect(article.tagList).toEqual(expectedTagList);
+        }
+      }
+    );
+  }
+
+  for (const { testId, testName } of ArticleData.getInvalidArticles()) {
+    test(`TC-208${testId} article with ${testName} is rejected`,
+      { tag: ["@article", "@content", "@negative"] },
+      async ({ apiClientAuth }) => {
+        const { articleData, message } = caseById(ArticleData.getInvalidArticles(), testId);
+        const response = await apiClientAuth.article.createArticle(articleData as unknown as Article);
+        expect(response).toHaveValidationErrors(message);
+      }
+    );
+  }
+
+  test("TC-2087 articles with the same title get different slugs",
+    { tag: ["@article", "@content"] },
+    async ({ apiClientAuth }) => {
+      const articleData = ArticleData.getDefaultArticleData();
+
+      const first = await apiClientAuth.article.createArticle(articleData);
+      const second = await apiClientAuth.article.createArticle(articleData);
+      expect(first).toHaveStatus(200);
+      expect(second).toHaveStatus(200);
+      expect(second.slug).not.toEqual(first.slug);
+    }
+  );
+});
+
+test.describe("Comment content", () => {
+
+  test.beforeEach(async ({ apiClientAuth }) => {
+    const createArticleObject = await apiClientAuth.article.createArticle(ArticleData.getDefaultArticleData());
+    expect(createArticleObject).toHaveStatus(200);
+    articleSlug = createArticleObject.slug!;
+  });
+
+  for (const { testId, testName, commentData } of ArticleData.getEdgeCaseComments()) {
+    test(`TC-209${testId} comment with ${testName} is returned unchanged`,
+      { tag: ["@article", "@comment", "@content"] },
+      async ({ apiClientAuth }) => {
+        const createResponse = await apiClientAuth.comment.addArticleComment(articleSlug, commentData);
+        expect(createResponse).toHaveStatus(200);
+        expect(createResponse).toMatchSchema(ArticleSchemas.CommentResponse);
+        expect(createResponse.body.comment.body).toEqual(commentData.comment.body);
+
+        const commentsResponse = await apiClientAuth.comment.getArticleComments(articleSlug);
+        const storedComment = commentsResponse.body.comments.find((comment) => comment.id === createResponse.commentId);
+        expect(storedComment?.body).toEqual(commentData.comment.body);
+      }
+    );
+  }
+
+  for (const { testId, testName, commentData, message } of ArticleData.getInvalidComments()) {
+    test(`TC-210${testId} comment with ${testName} is rejected`,
+      { tag: ["@article", "@comment", "@content", "@negative"] },
+      async ({ apiClientAuth }) => {
+        const response = await apiClientAuth.comment.addArticleComment(articleSlug, commentData as unknown as Comment);
+        expect(response).toHaveValidationErrors(message);
+      }
+    );
+  }
+});
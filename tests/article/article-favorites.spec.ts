@@ -1,50 +1,47 @@
 import { expect, test } from "../../fixtures/fixtures";
 import { ArticleSchemas } from "../../app/schemas/ArticleSchemas";
 import { getEnvUserCredentials } from "../../helpers/env.helper";
-import { clearUserArticles } from "../../helpers/cleanup.helper";
 import { debugPrint } from "../../helpers/debug.helper";
 import { ArticleData } from "../../test-data/ArticleData";
+import { ApiResult } from "../../app/interfaces/api.interface";
+import { SingleArticleResponse } from "../../app/interfaces/article.interface";
 
-let articleCreateResponse: any;
-let articleCreateResponseJson: any;
+let articleCreateResponse: ApiResult<SingleArticleResponse>;
+let articleCreateResponseJson: SingleArticleResponse;
 let articleSlug: string;
 
 test.describe("Favorites tests", () => {
 
   test.beforeEach(async ({ apiClientAuth }) => {
     const createArticleObject = await apiClientAuth.article.createArticle(ArticleData.getDefaultArticleData());
-    articleCreateResponse = createArticleObject.response;
-    articleCreateResponseJson = await createArticleObject.response.json();
-    articleSlug = createArticleObject.slug;
+    expect(createArticleObject).toHaveStatus(200);
+    articleCreateResponse = createArticleObject;
+    articleCreateResponseJson = createArticleObject.body;
+    articleSlug = createArticleObject.slug!;
     debugPrint("Created article with title: " + JSON.stringify(articleCreateResponseJson.article.title));
   });
 
-  test.afterAll(async ({ apiClientAuth }) => {
-    await clearUserArticles(apiClientAuth);
-  });
-
   test("TC-2021 add article to favorites",
     { tag: ["@article", "@favorites", "@schema"] },
     async ({ apiClientAuth }) => {
 
       // add article to favorite
       const favoriteResponse = await apiClientAuth.article.addToFavorites(articleSlug);
-      expect(favoriteResponse.status()).toBe(200);
-      const favoriteResponseJson = await favoriteResponse.json();
-      expect(favoriteResponseJson.article.favoritesCount).toBeGreaterThan(articleCreateResponseJson.article.favoritesCount);
+      expect(favoriteResponse).toHaveStatus(200);
+      const favoriteResponseJson = favoriteResponse.body;
+      expect(favoriteResponseJson.article.favoritesCount).toBeGreaterThan(articleCreateResponseJson.article.favoritesCount!);
 
       // get user favorites list
       const response = await apiClientAuth.article.getFavoriteArticles(getEnvUserCredentials().USER_NAME);
-      expect(response.status()).toBe(200);
-      const favoriteList = await response.json();
+      expect(response).toHaveStatus(200);
+      const favoriteList = response.body;
 
       // article in user's favorites list
-      const slugs = favoriteList.articles?.map((a: { slug: string }) => a.slug) ?? [];
+      const slugs = favoriteList.articles?.map((a) => a.slug) ?? [];
       expect(slugs).toContain(articleCreateResponseJson.article.slug);
 
       // json schema validation
-      const favoriteResponseValidation = ArticleSchemas.ArticleResponse.validate(favoriteResponseJson);
-      expect(favoriteResponseValidation.error).toBeUndefined();
+      expect(favoriteResponseJson).toMatchSchema(ArticleSchemas.ArticleResponse);
     }
   );
 
@@ -53,20 +50,44 @@ test.describe("Favorites tests", () => {
     async ({ apiClientAuth }) => {
       // add article to favorite
       const favoriteResponse = await apiClientAuth.article.addToFavorites(articleSlug);
-      expect(favoriteResponse.status()).toBe(200);
+      expect(favoriteResponse).toHaveStatus(200);
 
       // remove article from favorite
       const removeFavoriteResponse = await apiClientAuth.article.removeFromFavorites(articleSlug);
-      expect(removeFavoriteResponse.status()).toBe(200);
-      const removefavoriteResponseJson = await removeFavoriteResponse.json();
+      expect(removeFavoriteResponse).toHaveStatus(200);
+      const removefavoriteResponseJson = removeFavoriteResponse.body;
       expect(removefavoriteResponseJson.article.favoritesCount).toEqual(articleCreateResponseJson.article.favoritesCount);
 
       // get user favorites list and check article is not in the list
       const response = await apiClientAuth.article.getFavoriteArticles(getEnvUserCredentials().USER_NAME);
-      expect(response.status()).toBe(200);
-      const favoriteList = await response.json();
-      const slugs = favoriteList.articles?.map((a: { slug: string }) => a.slug) ?? [];
+      expect(response).toHaveStatus(200);
+      const favoriteList = response.body;
+      const slugs = favoriteList.articles?.map((a) => a.slug) ?? [];
       expect(slugs).not.toContain(articleCreateResponseJson.article.slug);
     }
   );
-});
\ No newline at end of file
+
+  test("TC-2023 article favorited by another user",
+    { tag: ["@article", "@favorites"] },
+    async ({ apiClientAuth, userPool }) => {
+      const otherUser = userPool[0];
+
+      // another user adds the article to favorites
+      const favoriteResponse = await otherUser.apiClient.article.addToFavorites(articleSlug);
+      expect(favoriteResponse).toHaveStatus(200);
+      expect(favoriteResponse.body.article.favorited).toBe(true);
+
+      // author sees the counter but not the own favorite flag
+      const articleResponse = await apiClientAuth.article.getArticle(articleSlug);
+      expect(articleResponse.body.article.favoritesCount).toEqual(articleCreateResponseJson.article.favoritesCount! + 1);
+      expect(articleResponse.body.article.favorited).toBe(false);
+
+      // article is in the favorites list of the other user
+      const response = await otherUser.apiClient.article.getFavoriteArticles(otherUser.credentials.username);
+      const slugs = response.body.articles?.map((a) => a.slug) ?? [];
+      expect(slugs).toContain(articleSlug);
+
+      await otherUser.apiClient.article.removeFromFavorites(articleSlug);
+    }
+  );
+});
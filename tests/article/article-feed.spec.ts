@@ -0,0 +1,67 @@
+import { expect, test } from "../../fixtures/fixtures";
+import { debugPrint } from "../../helpers/debug.helper";
+import { ArticleData } from "../../test-data/ArticleData";
+
+let articleSlug: string;
+
+test.describe("Article feed", () => {
+  test.beforeEach(async ({ userPool }) => {
+    const [author, reader] = userPool;
+    const createArticleObject = await author.apiClient.article.createArticle(ArticleData.getDefaultArticleData());
+    expect(createArticleObject).toHaveStatus(200);
+    articleSlug = createArticleObject.slug!;
+
+    const followResponse = await reader.apiClient.user.followUser(author.credentials.username);
+    expect(followResponse).toHaveStatus(200);
+    debugPrint(`${reader.credentials.username} follows ${author.credentials.username}`);
+  });
+
+  test("TC-2051 feed contains articles of followed author",
+    { tag: ["@article", "@feed"] },
+    async ({ userPool }) => {
+      const [author, reader] = userPool;
+      const feedResponse = await reader.apiClient.article.getFeed();
+      expect(feedResponse).toHaveStatus(200);
+
+      const feedArticles = feedResponse.body.articles ?? [];
+      debugPrint("Number of articles in feed: " + feedArticles.length);
+      expect(feedArticles.map((article) => article.slug)).toContain(articleSlug);
+
+      for (const article of feedArticles) {
+        expect(article.author?.username).toEqual(author.credentials.username);
+        expect(article.author?.following).toBe(true);
+      }
+    }
+  );
+
+  test("TC-2052 feed does not contain articles of unfollowed author",
+    { tag: ["@article", "@feed"] },
+    async ({ userPool }) => {
+      const [author, reader] = userPool;
+      const unFollowResponse = await reader.apiClient.user.unFollowUser(author.credentials.username);
+      expect(unFollowResponse).toHaveStatus(200);
+
+      const feedArticles = await reader.apiClient.article.getAllArticles({ feed: true });
+      expect(feedArticles.map((article) => article.slug)).not.toContain(articleSlug);
+    }
+  );
+
+  test("TC-2053 feed is not available without authorization",
+    { tag: ["@article", "@feed", "@negative"] },
+    async ({ apiClientNoAuth }) => {
+      const feedResponse = await apiClientNoAuth.article.getFeed();
+      expect(feedResponse).toHaveStatus(401);
+    }
+  );
+
+  test("TC-2054 feed of a user without followings is empty",
+    { tag: ["@article", "@feed"] },
+    async ({ userPool }) => {
+      const loner = userPool[2];
+      const feedResponse = await loner.apiClient.article.getFeed();
+      expect(feedResponse).toHaveStatus(200);
+      expect(feedResponse.body.articles).toEqual([]);
+      expect(feedResponse.body.articlesCount).toBe(0);
+    }
+  );
+});
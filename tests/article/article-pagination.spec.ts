@@ -0,0 +1,66 @@
+import { expect, test } from "../../fixtures/fixtures";
+import { debugPrint } from "../../helpers/debug.helper";
+import { ArticleData } from "../../test-data/ArticleData";
+
+const numberOfArticlesToCreate = 5;
+let createdSlugs: string[];
+
+test.describe("Article pagination", () => {
+  // A pool user of this worker, the .env user gets articles from specs running in parallel and the pages would shift
+  test.beforeEach(async ({ userPool }) => {
+    const author = userPool[0];
+    createdSlugs = [];
+    for (let i = 0; i < numberOfArticlesToCreate; i++) {
+      const createArticleObject = await author.apiClient.article.createArticle(ArticleData.getDefaultArticleData());
+      expect(createArticleObject).toHaveStatus(200);
+      createdSlugs.push(createArticleObject.slug!);
+    }
+    debugPrint("Created articles: " + JSON.stringify(createdSlugs));
+  });
+
+  test("TC-2061 limit restricts number of returned articles",
+    { tag: ["@article", "@pagination"] },
+    async ({ userPool }) => {
+      const author = userPool[0];
+      const response = await author.apiClient.article.getArticlesByAuthor(author.credentials.username, { limit: 2 });
+      expect(response).toHaveStatus(200);
+      expect(response.body.articles?.length).toBe(2);
+      expect(response.body.articlesCount).toBeGreaterThanOrEqual(numberOfArticlesToCreate);
+    }
+  );
+
+  test("TC-2062 pages with offset do not overlap",
+    { tag: ["@article", "@pagination"] },
+    async ({ userPool }) => {
+      const author = userPool[0];
+      const firstPage = await author.apiClient.article.getArticlesByAuthor(author.credentials.username, { limit: 2, offset: 0 });
+      const secondPage = await author.apiClient.article.getArticlesByAuthor(author.credentials.username, { limit: 2, offset: 2 });
+      expect(firstPage).toHaveStatus(200);
+      expect(secondPage).toHaveStatus(200);
+
+      const firstSlugs = firstPage.body.articles?.map((article) => article.slug) ?? [];
+      const secondSlugs = secondPage.body.articles?.map((article) => article.slug) ?? [];
+      expect(secondSlugs.length).toBeGreaterThan(0);
+      for (const slug of secondSlugs) {
+        expect(firstSlugs).not.toContain(slug);
+      }
+    }
+  );
+
+  test("TC-2063 iterate over all pages of author articles",
+    { tag: ["@article", "@pagination"] },
+    async ({ userPool }) => {
+      const author = userPool[0];
+      const slugs: string[] = [];
+      for await (const article of author.apiClient.article.iterateArticles({ author: author.credentials.username, limit: 2 })) {
+        slugs.push(article.slug as string);
+      }
+      debugPrint("Number of articles by author " + author.credentials.username + ": " + slugs.length);
+
+      expect(new Set(slugs).size).toBe(slugs.length);
+      for (const slug of createdSlugs) {
+        expect(slugs).toContain(slug);
+      }
+    }
+  );
+});
@@ -3,9 +3,10 @@ import { debugPrint } from "../../helpers/debug.helper";
 import { ArticleData } from "../../test-data/ArticleData";
 import { getEnvUserCredentials } from "../../helpers/env.helper";
 import { generateRandomNumber } from "../../helpers/data.helper";
-import { clearUserArticles } from "../../helpers/cleanup.helper";
+import { ArticleSchemas } from "../../app/schemas/ArticleSchemas";
+import { SingleArticleResponse } from "../../app/interfaces/article.interface";
 
-let articleCreateResponseJson: any;
+let articleCreateResponseJson: SingleArticleResponse;
 let numberOfArticlesToCreate: number;
 const defaultAuthor = getEnvUserCredentials().USER_NAME;
 
@@ -15,27 +16,23 @@ test.describe("Article Search", () => {
     numberOfArticlesToCreate = generateRandomNumber(3, 5);
     for (let i = 0; i < numberOfArticlesToCreate; i++) {
       const createArticleObject = await apiClientAuth.article.createArticle(ArticleData.getDefaultArticleData());
-      articleCreateResponseJson = await createArticleObject.response.json();
+      articleCreateResponseJson = createArticleObject.body;
       debugPrint("Created article with title: " + JSON.stringify(articleCreateResponseJson.article.title));
     }
   });
 
-  test.afterAll(async ({ apiClientAuth }) => {
-    await clearUserArticles(apiClientAuth);
-  });
-
   test("TC-2031 search article by Author",
     { tag: ["@article", "@search"] },
     async ({ apiClientAuth }) => {
       const getArticlesResponse = await apiClientAuth.article.getArticlesByAuthor(defaultAuthor);
-      expect(getArticlesResponse.status()).toBe(200);
+      expect(getArticlesResponse).toHaveStatus(200);
 
-      const receivedArticles = await getArticlesResponse.json();
-      expect(receivedArticles.articles.length).toBeGreaterThan(0);
-      debugPrint("Number of articles by author " + defaultAuthor + ": " + receivedArticles.articles.length);
+      const receivedArticles = getArticlesResponse.body.articles ?? [];
+      expect(receivedArticles.length).toBeGreaterThan(0);
+      debugPrint("Number of articles by author " + defaultAuthor + ": " + receivedArticles.length);
 
-      for (const article of receivedArticles.articles) {
-        expect(article.author.username).toEqual(defaultAuthor);
+      for (const article of receivedArticles) {
+        expect(article.author?.username).toEqual(defaultAuthor);
       }
     }
   );
@@ -45,14 +42,22 @@ test.describe("Article Search", () => {
     async ({ apiClientAuth }) => {
       const searchTag = ArticleData.getDefaultArticleData().article.tagList[0];
       const getArticlesResponse = await apiClientAuth.article.getArticlesByTag(searchTag);
-      expect(getArticlesResponse.status()).toBe(200);
+      expect(getArticlesResponse).toHaveStatus(200);
       
-      const receivedArticles = await getArticlesResponse.json();
-      expect(receivedArticles.articles.length).toBeGreaterThan(0);
-      debugPrint("Number of articles with tag " + searchTag + ": " + receivedArticles.articles.length);
+      const receivedArticles = getArticlesResponse.body.articles ?? [];
+      expect(receivedArticles.length).toBeGreaterThan(0);
+      debugPrint("Number of articles with tag " + searchTag + ": " + receivedArticles.length);
  
-      for (const article of receivedArticles.articles) {
+      for (const article of receivedArticles) {
         expect(article.tagList).toContain(searchTag);
       }
     });
-});
\ No newline at end of file
+
+  test("TC-2033 articles list json schema validation",
+    { tag: ["@article", "@search", "@schema"] },
+    async ({ apiClientAuth }) => {
+      const getArticlesResponse = await apiClientAuth.article.getArticlesByAuthor(defaultAuthor);
+      expect(getArticlesResponse).toHaveStatus(200);
+      expect(getArticlesResponse).toMatchSchema(ArticleSchemas.ArticlesResponse);
+    });
+});
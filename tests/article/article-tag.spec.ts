@@ -1,15 +1,12 @@
 import { expect, test } from "../../fixtures/fixtures";
-import { clearUserArticles } from "../../helpers/cleanup.helper";
 import { generateRandomNumber } from "../../helpers/data.helper";
 import { debugPrint } from "../../helpers/debug.helper";
 import { ArticleData } from "../../test-data/ArticleData";
+import { ArticleSchemas } from "../../app/schemas/ArticleSchemas";
+import { getEnvironment } from "../../helpers/env.helper";
 
 test.describe("Article tags tests", () => {
 
-  test.afterAll(async ({ apiClientAuth }) => {
-    await clearUserArticles(apiClientAuth);
-  });
-
   test("TC-2041 search articles with known/own tag",
     { tag: ["@article", "@search", "@tag"] },
     async ({ apiClientAuth }) => {
@@ -18,17 +15,16 @@ test.describe("Article tags tests", () => {
 
       for (let i = 0; i < numberOfArticlesToCreate; i++) {
         const createArticleObject = await apiClientAuth.article.createArticle(ArticleData.getDefaultArticleData());
-        const articleCreateResponseJson = await createArticleObject.response.json();
+        const articleCreateResponseJson = createArticleObject.body;
         debugPrint("Created article with title: " + JSON.stringify(articleCreateResponseJson.article.title));
       }
       const ownTags = ArticleData.getDefaultArticleData().article.tagList;
 
       // get list of articles with tag = ownTags[0]
       const getArticlesResponse = await apiClientAuth.article.getArticlesByTag(ownTags[0]);
-      expect(getArticlesResponse.status()).toBe(200);
+      expect(getArticlesResponse).toHaveStatus(200);
       
-      const articlesResponseJson = await getArticlesResponse.json();
-      const articlesWithTag = articlesResponseJson.articles.length;
+      const articlesWithTag = getArticlesResponse.body.articles?.length ?? 0;
       debugPrint("Number of articles with tag " + ownTags[0] + ": " + articlesWithTag);
       expect(articlesWithTag).toBeGreaterThanOrEqual(numberOfArticlesToCreate);
     }
@@ -37,8 +33,9 @@ test.describe("Article tags tests", () => {
   test("TC-2042 search article with random tag from site",
     { tag: ["@article", "@search", "@tag"] },
     async ({ apiClientAuth }) => {
+      test.skip(!getEnvironment().capabilities.seededData, "Environment has no pre-existing tags");
       // get random tag from site 
-      const existingTags = await apiClientAuth.tag.getExistingTags();
+      const existingTags = (await apiClientAuth.tag.getExistingTags()).body.tags;
       debugPrint("Existing tags: " + JSON.stringify(existingTags));
       debugPrint("Existing tags number: " + existingTags.length);
       const randomTagId = generateRandomNumber(0, existingTags.length - 1);
@@ -47,12 +44,19 @@ test.describe("Article tags tests", () => {
       // get list of articles with randomTag
       debugPrint("Searching articles with random tag: " + randomTag);
       const getArticlesResponse = await apiClientAuth.article.getArticlesByTag(randomTag);
-      expect(getArticlesResponse.status()).toBe(200);
+      expect(getArticlesResponse).toHaveStatus(200);
 
       // validate number of articles with this tag
-      const articlesResponseJson = await getArticlesResponse.json();
-      const articlesWithTag = articlesResponseJson.articles.length;
+      const articlesWithTag = getArticlesResponse.body.articles?.length ?? 0;
       debugPrint("Number of articles with tag " + randomTag + ": " + articlesWithTag);
       expect(articlesWithTag).toBeGreaterThanOrEqual(1);
     });
-});
\ No newline at end of file
+
+  test("TC-2043 tags list json schema validation",
+    { tag: ["@article", "@tag", "@schema"] },
+    async ({ apiClientNoAuth }) => {
+      const tagsResponse = await apiClientNoAuth.tag.getExistingTags();
+      expect(tagsResponse).toHaveStatus(200);
+      expect(tagsResponse).toMatchSchema(ArticleSchemas.TagsResponse);
+    });
+});
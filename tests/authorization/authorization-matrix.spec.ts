@@ -0,0 +1,92 @@
+import { expect, test } from "../../fixtures/fixtures";
+import { APIClient } from "../../api-client/ApiClient";
+import { apiOperations } from "../../app/generated/conduit.endpoints";
+import { createExpiredToken } from "../../helpers/auth.helper";
+import { getAuthHeaders } from "../../helpers/env.helper";
+import { formatTable } from "../../helpers/table.helper";
+import { AuthorizationData, AuthorizationTarget, Caller, callers } from "../../test-data/AuthorizationData";
+import { ArticleBuilder } from "../../test-data/builders/ArticleBuilder";
+import { CommentBuilder } from "../../test-data/builders/CommentBuilder";
+
+const callerTitles: Record<Caller, string> = {
+  anonymous: "Anonymous",
+  owner: "Owner",
+  otherUser: "Other user",
+  malformedToken: "Malformed token",
+  tamperedToken: "Tampered token",
+  expiredToken: "Expired token",
+  wrongScheme: "Wrong scheme",
+};
+
+// Same token with one character changed in the middle of the signature.
+// Not the last character: its low bits are base64url padding, a decoder may ignore them.
+function tamper(token: string): string {
+  const [header, payload, signature] = token.split(".");
+  const middle = Math.floor(signature.length / 2);
+  const flipped = signature[middle] === "A" ? "B" : "A";
+  return `${header}.${payload}.${signature.slice(0, middle)}${flipped}${signature.slice(middle + 1)}`;
+}
+
+// Article with a comment, both owned by `owner`
+async function createTarget(owner: APIClient, username: string): Promise<AuthorizationTarget> {
+  const article = await new ArticleBuilder().create(owner);
+  expect(article, "target article").toHaveStatus(200);
+  const comment = await new CommentBuilder().create(owner, article.slug!);
+  expect(comment, "target comment").toHaveStatus(200);
+  return { username, slug: article.slug!, commentId: comment.commentId! };
+}
+
+test.describe("Authorization matrix", () => {
+
+  // One test for the whole matrix, so the grid attached to it shows every endpoint and caller
+  test("TC-3001 every endpoint answers each caller with the expected status",
+    { tag: ["@authorization", "@negative"] },
+    async ({ userPool, request }, testInfo) => {
+      test.slow();
+      const [owner, otherUser] = userPool;
+      const expiredToken = createExpiredToken(owner.user.token);
+      const clients: Record<Caller, APIClient | undefined> = {
+        anonymous: new APIClient(request),
+        owner: owner.apiClient,
+        otherUser: otherUser.apiClient,
+        malformedToken: new APIClient(request, getAuthHeaders("not-a-token")),
+        tamperedToken: new APIClient(request, getAuthHeaders(tamper(owner.user.token))),
+        expiredToken: expiredToken ? new APIClient(request, getAuthHeaders(expiredToken)) : undefined,
+        wrongScheme: new APIClient(request, { Authorization: `Basic ${owner.user.token}` }),
+      };
+
+      const rows: string[][] = [];
+      for (const rule of AuthorizationData.getMatrix()) {
+        const operation = apiOperations.find(({ operationId }) => operationId === rule.operationId);
+        if (!operation) {
+          throw new Error(`Authorization rule "${rule.operationId}" names no operation of openapi/conduit.openapi.json.`);
+        }
+        const row = [`${operation.method} ${operation.path}`];
+        // A call that declares no `target` parameter does not use one, so no article is created for it
+        const usesTarget = rule.call.length > 1;
+        let target = usesTarget ? await createTarget(owner.apiClient, owner.user.username) : undefined;
+
+        for (const caller of callers) {
+          const client = clients[caller];
+          if (!client) {
+            row.push("n/a");
+            continue;
+          }
+          if (usesTarget && rule.consumesTarget && caller !== callers[0]) {
+            target = await createTarget(owner.apiClient, owner.user.username);
+          }
+          const { status } = await rule.call(client, target!);
+          const expected = rule.expected[caller];
+          expect.soft(status, `${rule.operationId} as ${callerTitles[caller]}`).toBe(expected);
+          row.push(status === expected ? String(status) : `${status} (expected ${expected})`);
+        }
+        rows.push(row);
+      }
+
+      await testInfo.attach("authorization-matrix.txt", {
+        body: formatTable("Authorization matrix:", ["Endpoint", ...callers.map((caller) => callerTitles[caller])], rows),
+        contentType: "text/plain",
+      });
+    }
+  );
+});
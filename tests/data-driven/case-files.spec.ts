@@ -0,0 +1,47 @@
+import path from "path";
+import { expect, test } from "../../fixtures/fixtures";
+import { ConduitSchemas } from "../../app/generated/conduit.schemas";
+import { callController, loadCaseFiles, resolvePlaceholders } from "../../helpers/case-file.helper";
+import { ArticleData } from "../../test-data/ArticleData";
+
+// Tests generated from test-data/cases, see the format in README.md
+for (const { file, suite, cases } of loadCaseFiles(path.resolve(__dirname, "../../test-data/cases"))) {
+  test.describe(`${suite} (${file})`, () => {
+
+    for (const testCase of cases) {
+      test(`${testCase.id} ${testCase.name}`,
+        { tag: ["@data-driven", ...testCase.tags] },
+        async ({ apiClientAuth, apiClientNoAuth }) => {
+          const context: Record<string, unknown> = {};
+          if (testCase.given === "article") {
+            const article = await apiClientAuth.article.createArticle(ArticleData.getDefaultArticleData());
+            expect(article, "given article").toHaveStatus(200);
+            context.article = article.body.article;
+          }
+          // One at a time, so a var can use the vars above it
+          const vars: Record<string, unknown> = {};
+          context.vars = vars;
+          for (const [name, value] of Object.entries(testCase.vars)) {
+            vars[name] = resolvePlaceholders(value, context);
+          }
+
+          const client = testCase.auth === "none" ? apiClientNoAuth : apiClientAuth;
+          const args = resolvePlaceholders(testCase.args, context) as unknown[];
+          const result = await callController(client, testCase.call, args);
+
+          const { status, body, errors, schema } = testCase.expect;
+          expect(result).toHaveStatus(status);
+          if (errors) {
+            expect(result.body, "error map").toEqual({ errors });
+          }
+          if (body !== undefined) {
+            expect(result.body, "body subset").toMatchObject(resolvePlaceholders(body, context) as Record<string, unknown>);
+          }
+          if (schema) {
+            expect(result).toMatchSchema(ConduitSchemas[schema]);
+          }
+        }
+      );
+    }
+  });
+}
@@ -1,19 +1,20 @@
 import { test as setup, expect } from "../fixtures/fixtures";
 import { debugPrint } from "../helpers/debug.helper";
 import { getEnvUserCredentials } from "../helpers/env.helper";
+import { createAuthState, getAuthStateFile, saveAuthState } from "../helpers/auth.helper";
+import { AuthUser } from "../app/interfaces/user.interface";
 
-setup("Check if user exist and create if not", async ({ apiClientNoAuth }) => {
-  let token: string;
+setup("Check if user exist and create if not", async ({ apiClientNoAuth, baseURL }) => {
+  let user: AuthUser;
   const { USER_EMAIL, USER_NAME, USER_PASSWORD } = getEnvUserCredentials();
 
   // Try to login with existing user
   const loginResponse = await apiClientNoAuth.user.loginUser(USER_EMAIL, USER_PASSWORD);
-  debugPrint("loginResponse.status: " + loginResponse.status());
+  debugPrint("loginResponse.status: " + loginResponse.status);
 
-  if (loginResponse.ok()) {
-    const loginResponseJson = await loginResponse.json();
-    token = loginResponseJson.user.token;
-    debugPrint(`User ${USER_EMAIL} already exists. token: ${token}`);
+  if (loginResponse.response.ok()) {
+    user = loginResponse.body.user;
+    debugPrint(`User ${USER_EMAIL} already exists. token: ${user.token}`);
   } else {
 
     // If login fails, create a new user
@@ -25,13 +26,14 @@ setup("Check if user exist and create if not", async ({ apiClientNoAuth }) => {
       },
     });
 
-    const createResponseJson = await createResponse.json();
-    debugPrint("createResponseJson: " + JSON.stringify(createResponseJson));
-    expect(createResponse.status()).toBe(200);
-    token = createResponseJson.user.token;
-    expect(token).toBeDefined();
-    debugPrint(`User ${USER_EMAIL} created with token: ${token}`);
+    debugPrint("createResponseJson: " + JSON.stringify(createResponse.body));
+    expect(createResponse).toHaveStatus(200);
+    user = createResponse.body.user;
+    expect(user.token).toBeDefined();
+    debugPrint(`User ${USER_EMAIL} created with token: ${user.token}`);
   }
 
-  process.env.TOKEN = token;
+  // Workers read the token from this file, process.env does not reliably reach them
+  saveAuthState(createAuthState(user, baseURL));
+  debugPrint("Auth state file: " + getAuthStateFile());
 });
\ No newline at end of file
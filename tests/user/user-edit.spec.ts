@@ -1,29 +1,66 @@
+import { faker } from "@faker-js/faker";
 import { expect, test } from "../../fixtures/fixtures";
+import { APIClient } from "../../api-client/ApiClient";
 import { debugPrint } from "../../helpers/debug.helper";
-import { getEnvUserCredentials } from "../../helpers/env.helper";
+import { getAuthHeaders } from "../../helpers/env.helper";
 import { UserData } from "../../test-data/UserData";
+import { UserBuilder } from "../../test-data/builders/UserBuilder";
 import { UserSchemas } from "../../app/schemas/UserSchemas";
 
 test.describe("User edit", () => {
-
   test("TC-1131 edit user",
     { tag: ["@user", "@crud", "@schema"] },
     async ({ apiClientAuth }) => {
       // get user initial info
-      const profileResponse = await apiClientAuth.user.getUserProfile(getEnvUserCredentials().USER_NAME);
-      const profileBefore = await profileResponse.json();
-      debugPrint("Profile before update: " + JSON.stringify(profileBefore));
+      const currentUserResponse = await apiClientAuth.user.getCurrentUser();
+      expect(currentUserResponse).toHaveStatus(200);
+      const userBefore = currentUserResponse.body;
+      debugPrint("User before update: " + JSON.stringify(userBefore));
  
       // edit user
       const editResponse = await apiClientAuth.user.editUser(UserData.getDataForUpdateUser());
-      expect(editResponse.status()).toBe(200);
-      const editResponseJson = await editResponse.json();
-      debugPrint("Profile after update: " + JSON.stringify(editResponseJson));
+      expect(editResponse).toHaveStatus(200);
+      const editResponseJson = editResponse.body;
+      debugPrint("User after update: " + JSON.stringify(editResponseJson));
 
       // validations
-      expect(editResponseJson.user.bio).not.toEqual(profileBefore.profile.bio);
-      expect(editResponseJson.user.image).not.toEqual(profileBefore.profile.image);
-      const editResults = UserSchemas.UserResponse.validate(editResponseJson);
-      expect(editResults.error).toBeUndefined();
+      expect(editResponseJson.user.bio).not.toEqual(userBefore.user.bio);
+      expect(editResponseJson.user.image).not.toEqual(userBefore.user.image);
+      expect(editResponseJson).toMatchSchema(UserSchemas.UserResponse);
+
+      // changes are visible for the current user
+      const currentUserAfter = await apiClientAuth.user.getCurrentUser();
+      expect(currentUserAfter.body.user.bio).toEqual(editResponseJson.user.bio);
+      expect(currentUserAfter.body.user.image).toEqual(editResponseJson.user.image);
+    })
+
+  test("TC-1132 get current user",
+    { tag: ["@user", "@schema"] },
+    async ({ apiClientAuth }) => {
+      const response = await apiClientAuth.user.getCurrentUser();
+      expect(response).toHaveStatus(200);
+      expect(response).toMatchSchema(UserSchemas.UserResponse);
+    })
+
+  test("TC-1133 get current user without authorization",
+    { tag: ["@user", "@negative"] },
+    async ({ apiClientNoAuth }) => {
+      const response = await apiClientNoAuth.user.getCurrentUser();
+      expect(response).toHaveStatus(401);
+    })
+
+  test("TC-1134 edit only bio keeps the other fields",
+    { tag: ["@user", "@crud"] },
+    async ({ apiClientNoAuth, request }) => {
+      // own user, so TC-1131 editing the shared one in parallel does not change the image in between
+      const createResponse = await new UserBuilder().create(apiClientNoAuth);
+      expect(createResponse).toHaveStatus(200);
+      const userBefore = createResponse.body.user;
+      const bio = faker.person.bio();
+
+      const apiClient = new APIClient(request, getAuthHeaders(userBefore.token));
+      const editResponse = await UserBuilder.forUpdate().withBio(bio).update(apiClient);
+      expect(editResponse).toHaveStatus(200);
+      expect(editResponse.body.user).toEqual({ ...userBefore, bio, token: editResponse.body.user.token });
     })
 });
\ No newline at end of file
@@ -0,0 +1,88 @@
+import { TestInfo } from "@playwright/test";
+import { expect, test } from "../../fixtures/fixtures";
+import { APIClient } from "../../api-client/ApiClient";
+import { ApiResult } from "../../app/interfaces/api.interface";
+import { User } from "../../app/interfaces/user.interface";
+import { ErrorSchemas } from "../../app/schemas/ErrorSchemas";
+import { getAuthHeaders, getFuzzOptions } from "../../helpers/env.helper";
+import { checkProperty, FuzzFailure, FuzzOptions } from "../../helpers/fuzz.helper";
+import { FuzzData } from "../../test-data/FuzzData";
+import { UserData } from "../../test-data/UserData";
+
+// Whatever the input, the API answers with 2xx, or with 4xx and an `{ errors }` body
+function errorContractViolation(result: ApiResult<unknown>): string | undefined {
+  if (result.status >= 500) {
+    return `${result.method} ${result.url} returned ${result.status}`;
+  }
+  if (result.status >= 400) {
+    const { error } = ErrorSchemas.ErrorResponse.validate(result.body);
+    if (error) {
+      return `${result.method} ${result.url} returned ${result.status} without an { errors } body: ${error.message}`;
+    }
+  }
+  return undefined;
+}
+
+async function expectNoCounterexample(failure: FuzzFailure<unknown> | undefined, testInfo: TestInfo) {
+  if (failure) {
+    await testInfo.attach("fuzz-counterexample.json", {
+      body: JSON.stringify(failure, null, 2),
+      contentType: "application/json",
+    });
+  }
+  expect(failure, failure && `${failure.reason}\n` +
+    `Minimal input (${failure.shrinkSteps} shrink steps): ${JSON.stringify(failure.shrunk)}\n` +
+    `Repeat with FUZZ_SEED=${failure.seed}`
+  ).toBeUndefined();
+}
+
+test.describe("User payload fuzzing", () => {
+  let options: FuzzOptions;
+
+  // Inputs follow the test's data seed unless FUZZ_SEED is given
+  test.beforeEach(async ({ dataSeed }, testInfo) => {
+    options = getFuzzOptions(dataSeed);
+    testInfo.annotations.push({ type: "fuzz-seed", description: `FUZZ_SEED=${options.seed} FUZZ_RUNS=${options.runs}` });
+  });
+
+  test("TC-1151 registration never fails with a server error",
+    { tag: ["@user", "@negative", "@fuzz"] },
+    async ({ apiClientNoAuth }, testInfo) => {
+      const failure = await checkProperty(
+        FuzzData.registrationPayload(),
+        async (payload) => errorContractViolation(await apiClientNoAuth.user.createUser(payload as User)),
+        options
+      );
+      await expectNoCounterexample(failure, testInfo);
+    }
+  );
+
+  test("TC-1152 login never fails with a server error",
+    { tag: ["@user", "@negative", "@fuzz"] },
+    async ({ apiClientNoAuth }, testInfo) => {
+      const failure = await checkProperty(
+        FuzzData.loginCredentials(),
+        async ({ email, password }) => errorContractViolation(await apiClientNoAuth.user.loginUser(email as string, password as string)),
+        options
+      );
+      await expectNoCounterexample(failure, testInfo);
+    }
+  );
+
+  // Edits change email, username and password, so a freshly registered user is used instead of the shared one
+  test("TC-1153 user edit never fails with a server error",
+    { tag: ["@user", "@negative", "@fuzz"] },
+    async ({ apiClientNoAuth, request }, testInfo) => {
+      const createResponse = await apiClientNoAuth.user.createUser(UserData.getRandomUserData());
+      expect(createResponse).toHaveStatus(200);
+      const apiClient = new APIClient(request, getAuthHeaders(createResponse.body.user.token));
+
+      const failure = await checkProperty(
+        FuzzData.updatePayload(),
+        async (payload) => errorContractViolation(await apiClient.user.editUser(payload as User)),
+        options
+      );
+      await expectNoCounterexample(failure, testInfo);
+    }
+  );
+});
@@ -0,0 +1,112 @@
+import { expect, test } from "../../fixtures/fixtures";
+import { APIClient } from "../../api-client/ApiClient";
+import { AuthUser } from "../../app/interfaces/user.interface";
+import { UserSchemas } from "../../app/schemas/UserSchemas";
+import { debugPrint } from "../../helpers/debug.helper";
+import { getAuthHeaders } from "../../helpers/env.helper";
+import { UserData } from "../../test-data/UserData";
+
+let apiClient: APIClient;
+let originalCredentials: { email: string; password: string; username: string };
+let originalUser: AuthUser;
+
+// Email, username and password are changed here, so a freshly registered user is used instead of the shared one
+test.describe("User profile lifecycle", () => {
+  test.beforeEach(async ({ apiClientNoAuth, request }) => {
+    const userData = UserData.getRandomUserData();
+    originalCredentials = userData.user;
+
+    const createResponse = await apiClientNoAuth.user.createUser(userData);
+    expect(createResponse).toHaveStatus(200);
+    originalUser = createResponse.body.user;
+    debugPrint("Registered user: " + JSON.stringify(originalUser));
+
+    apiClient = new APIClient(request, getAuthHeaders(originalUser.token));
+  });
+
+  test("TC-1141 edit every user field and restore original state",
+    { tag: ["@user", "@crud", "@schema"] },
+    async ({ apiClientNoAuth }) => {
+      const updatedCredentials = UserData.getRandomUserData().user;
+      const updatedDetails = UserData.getDataForUpdateUser().user;
+
+      await test.step("edit bio and image", async () => {
+        const editResponse = await apiClient.user.editUser({ user: updatedDetails });
+        expect(editResponse).toHaveStatus(200);
+
+        const currentUser = await apiClient.user.getCurrentUser();
+        expect(currentUser).toHaveStatus(200);
+        expect(currentUser.body.user.bio).toEqual(updatedDetails.bio);
+        expect(currentUser.body.user.image).toEqual(updatedDetails.image);
+      });
+
+      await test.step("edit username", async () => {
+        const editResponse = await apiClient.user.editUser({ user: { username: updatedCredentials.username } });
+        expect(editResponse).toHaveStatus(200);
+
+        const currentUser = await apiClient.user.getCurrentUser();
+        expect(currentUser.body.user.username).toEqual(updatedCredentials.username);
+
+        const profileResponse = await apiClientNoAuth.user.getUserProfile(updatedCredentials.username);
+        expect(profileResponse).toHaveStatus(200);
+        expect(profileResponse.body.profile?.username).toEqual(updatedCredentials.username);
+        expect(profileResponse).toMatchSchema(UserSchemas.ProfileResponse);
+      });
+
+      await test.step("edit email", async () => {
+        const editResponse = await apiClient.user.editUser({ user: { email: updatedCredentials.email } });
+        expect(editResponse).toHaveStatus(200);
+
+        const currentUser = await apiClient.user.getCurrentUser();
+        expect(currentUser.body.user.email).toEqual(updatedCredentials.email);
+        expect(currentUser).toMatchSchema(UserSchemas.UserResponse);
+      });
+
+      await test.step("edit password and re-login", async () => {
+        const editResponse = await apiClient.user.editUser({ user: { password: updatedCredentials.password } });
+        expect(editResponse).toHaveStatus(200);
+
+        const loginResponse = await apiClientNoAuth.user.loginUser(updatedCredentials.email, updatedCredentials.password);
+        expect(loginResponse).toHaveStatus(200);
+        expect(loginResponse.body.user.username).toEqual(updatedCredentials.username);
+
+        const oldPasswordLogin = await apiClientNoAuth.user.loginUser(updatedCredentials.email, originalCredentials.password);
+        expect(oldPasswordLogin).toHaveStatus(422);
+      });
+
+      await test.step("restore original state", async () => {
+        const editResponse = await apiClient.user.editUser({
+          user: {
+            ...originalCredentials,
+            bio: originalUser.bio ?? "",
+            image: originalUser.image,
+          },
+        });
+        expect(editResponse).toHaveStatus(200);
+
+        const currentUser = await apiClient.user.getCurrentUser();
+        expect(currentUser.body.user.email).toEqual(originalCredentials.email);
+        expect(currentUser.body.user.username).toEqual(originalCredentials.username);
+        expect(currentUser.body.user.image).toEqual(originalUser.image);
+
+        const loginResponse = await apiClientNoAuth.user.loginUser(originalCredentials.email, originalCredentials.password);
+        expect(loginResponse).toHaveStatus(200);
+      });
+    }
+  );
+
+  test("TC-1142 previous username is released after rename",
+    { tag: ["@user", "@crud"] },
+    async ({ apiClientNoAuth }) => {
+      const newUsername = UserData.getRandomUserData().user.username;
+      const editResponse = await apiClient.user.editUser({ user: { username: newUsername } });
+      expect(editResponse).toHaveStatus(200);
+
+      const oldProfile = await apiClientNoAuth.user.getUserProfile(originalCredentials.username);
+      expect(oldProfile).toHaveStatus(404);
+
+      const newProfile = await apiClientNoAuth.user.getUserProfile(newUsername);
+      expect(newProfile).toHaveStatus(200);
+    }
+  );
+});
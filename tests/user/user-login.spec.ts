@@ -1,4 +1,5 @@
 import { expect, test } from "../../fixtures/fixtures";
+import { caseById } from "../../helpers/data.helper";
 import { debugPrint } from "../../helpers/debug.helper";
 import { UserData } from "../../test-data/UserData";
 
@@ -13,27 +14,27 @@ test.describe("User login", () => {
           userData.password
         );
 
-        expect(response.status()).toBe(200);
-        const body = await response.json();
+        expect(response).toHaveStatus(200);
+        const body = response.body;
         expect(body.user.token).toBeDefined();
         expect(body.user.email).toBe(userData.email);
         expect(body.user.username).toBe(userData.username);
       });
   }
 
-  for (const { testId, testName, userData, message } of UserData.getInvalidDataForLogin()) {
+  for (const { testId, testName } of UserData.getInvalidDataForLogin()) {
     test(`TC-112${testId} unsuccessful login with ${testName}`,
       { tag: ["@user", "@negative"] },
       async ({ apiClientNoAuth }) => {
+        const { userData, message } = caseById(UserData.getInvalidDataForLogin(), testId);
         const response = await apiClientNoAuth.user.loginUser(
           userData.email,
           userData.password
         );
 
-        expect(response.status()).toBe(422);
-        debugPrint(`Response for test ${testId}: ` + JSON.stringify(await response.json()));
+        debugPrint(`Response for test ${testId}: ` + JSON.stringify(response.body));
         debugPrint(`Expected error for test ${testId}: ` + JSON.stringify(message));
-        expect(await response.json()).toEqual({ errors: message });
+        expect(response).toHaveValidationErrors(message);
       }
     );
   }
@@ -1,18 +1,20 @@
 import { expect, test } from "../../fixtures/fixtures";
+import { caseById } from "../../helpers/data.helper";
 import { debugPrint } from "../../helpers/debug.helper";
 import { UserData } from "../../test-data/UserData";
 
 test.describe("User signup", () => {
 
-  for (const { testId, testName, userData } of UserData.getValidDataForRegistration()) {
+  for (const { testId, testName } of UserData.getValidDataForRegistration()) {
     test(`TC-101${testId} successful registration with ${testName}`,
       { tag: ["@user", "@crud"] },
       async ({ apiClientNoAuth }) => {
+        const { userData } = caseById(UserData.getValidDataForRegistration(), testId);
         const response = await apiClientNoAuth.user.createUser(userData);
 
         debugPrint("registering user with data: " + JSON.stringify(userData));
-        expect(response.status()).toBe(200);
-        const body = await response.json();
+        expect(response).toHaveStatus(200);
+        const body = response.body;
         expect(body.user.token).toBeDefined();
         expect(body.user.email).toBe(userData.user.email);
         expect(body.user.username).toBe(userData.user.username);
@@ -20,16 +22,16 @@ test.describe("User signup", () => {
     );
   }
 
-  for (const { testId, testName, userData, message } of UserData.getInvalidDataForRegistration()) {
+  for (const { testId, testName } of UserData.getInvalidDataForRegistration()) {
     test(`TC-102${testId} unsuccessful registration with ${testName}`,
       { tag: ["@user", "@negative"] },
       async ({ apiClientNoAuth }) => {
+        const { userData, message } = caseById(UserData.getInvalidDataForRegistration(), testId);
         const response = await apiClientNoAuth.user.createUser(userData);
 
-        expect(response.status()).toBe(422);
-        debugPrint(`Response for test ${testId}: ` + JSON.stringify(await response.json()));
+        debugPrint(`Response for test ${testId}: ` + JSON.stringify(response.body));
         debugPrint(`Expected error for test ${testId}: ` + JSON.stringify(message));
-        expect(await response.json()).toEqual({ errors: message });
+        expect(response).toHaveValidationErrors(message);
       }
     )
   }